@@ -0,0 +1,101 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ExerciseProgressChart } from '@/components/exercise-progress-chart'
+import { ProgressRangeSelect } from '@/components/progress-range-select'
+import { formatWeightInUnit, type WeightUnit } from '@/lib/utils/units'
+import {
+  formatProgressMetric,
+  getHeadlineProgressMetric,
+  progressMetricShortLabels,
+} from '@/lib/utils/progress'
+import type { SetMetric } from '@/lib/utils/set-metrics'
+import { muscleGroupLabels } from '@/lib/utils/exercise-catalog'
+import type { ProgressRange } from '@/lib/utils/date'
+import type { ExerciseProgressPoint, MuscleGroupVolume } from '@/types/workout'
+
+interface ProgressOverviewProps {
+  range: ProgressRange
+  unit: WeightUnit
+  exercises: {
+    exerciseId: number
+    name: string
+    metrics: SetMetric[]
+    progress: ExerciseProgressPoint[]
+  }[]
+  muscleGroupVolume: MuscleGroupVolume[]
+}
+
+/**
+ * Compact trends for the user's most trained exercises (estimated 1RM, or
+ * time, distance or reps for exercises without a weight and reps),
+ * followed by the sets and volume per muscle group
+ * Following /docs/ui.md guidelines:
+ * - Composing shadcn/ui components
+ */
+export function ProgressOverview({ range, unit, exercises, muscleGroupVolume }: ProgressOverviewProps) {
+  if (exercises.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-2xl font-semibold tracking-tight">Progress</h2>
+        <ProgressRangeSelect value={range} />
+      </div>
+      <div className="grid gap-4 md:grid-cols-3">
+        {exercises.map((exercise) => {
+          const latest = exercise.progress[exercise.progress.length - 1]
+          const metric = getHeadlineProgressMetric(exercise.metrics)
+
+          return (
+            <Card key={exercise.exerciseId}>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  <Link href={`/dashboard/exercises/${exercise.exerciseId}`} className="hover:underline">
+                    {exercise.name}
+                  </Link>
+                </CardTitle>
+                <CardDescription>
+                  {latest
+                    ? `Latest ${progressMetricShortLabels[metric]}: ${formatProgressMetric(latest, metric, unit)}`
+                    : 'No sessions in this range'}
+                </CardDescription>
+              </CardHeader>
+              {exercise.progress.length > 1 && (
+                <CardContent>
+                  <ExerciseProgressChart
+                    data={exercise.progress}
+                    metric={metric}
+                    unit={unit}
+                    compact
+                  />
+                </CardContent>
+              )}
+            </Card>
+          )
+        })}
+      </div>
+      {muscleGroupVolume.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Sets by Muscle Group</CardTitle>
+            <CardDescription>Counted toward each exercise&apos;s primary muscle</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {muscleGroupVolume.map((entry) => (
+                <div key={entry.muscleGroup} className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{muscleGroupLabels[entry.muscleGroup]}</span>
+                  <span className="text-muted-foreground">
+                    {entry.setCount} {entry.setCount === 1 ? 'set' : 'sets'} · {formatWeightInUnit(entry.totalVolume, unit)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
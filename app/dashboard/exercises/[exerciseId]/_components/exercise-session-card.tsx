@@ -0,0 +1,178 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Trophy } from 'lucide-react'
+import { formatDate, formatTime } from '@/lib/utils/date'
+import {
+  estimateSetOneRepMax,
+  formatEffort,
+  formatWeight,
+  type OneRepMaxFormula,
+} from '@/lib/utils/strength'
+import { personalRecordLabels } from '@/lib/utils/personal-records'
+import { getCountedSets } from '@/lib/utils/set-types'
+import { formatLoad, withEffectiveLoad, type LoadMode } from '@/lib/utils/load-modes'
+import { fromKilograms, type WeightUnit } from '@/lib/utils/units'
+import {
+  formatDistance,
+  formatSetDuration,
+  formatSetTotals,
+  getSetTotals,
+  hasLoadAndReps,
+  tracksLoadAndReps,
+  type SetMetric,
+} from '@/lib/utils/set-metrics'
+import { SetTypeBadge } from '@/components/set-type-badge'
+import type { ExerciseHistoryEntry, PersonalRecord } from '@/types/workout'
+
+interface ExerciseSessionCardProps {
+  entry: ExerciseHistoryEntry
+  personalRecords: PersonalRecord[]
+  oneRepMaxFormula: OneRepMaxFormula
+  excludeWarmupSets: boolean
+  useEffortForOneRepMax: boolean
+  loadMode: LoadMode
+  metrics: SetMetric[]
+  weightUnit: WeightUnit
+}
+
+/**
+ * One past session of an exercise with the sets that were logged
+ * Following /docs/ui.md guidelines:
+ * - Composing shadcn/ui components
+ * - Using date-fns helpers for date formatting
+ */
+export function ExerciseSessionCard({
+  entry,
+  personalRecords,
+  oneRepMaxFormula,
+  excludeWarmupSets,
+  useEffortForOneRepMax,
+  loadMode,
+  metrics,
+  weightUnit,
+}: ExerciseSessionCardProps) {
+  const { workout, sets } = entry
+
+  // Volume and e1RM include bodyweight for bodyweight and assisted exercises
+  const effectiveSets = sets.map((set) => withEffectiveLoad(set, loadMode, workout.bodyweightKg))
+
+  const totals = getSetTotals(getCountedSets(effectiveSets, excludeWarmupSets))
+  const showOneRepMax = tracksLoadAndReps(metrics)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-lg">
+              <Link href={`/dashboard/workout/${workout.id}`} className="hover:underline">
+                {workout.name}
+              </Link>
+            </CardTitle>
+            <CardDescription>
+              {formatDate(workout.startedAt)} at {formatTime(workout.startedAt)}
+            </CardDescription>
+          </div>
+          <div className="text-right text-sm text-muted-foreground">
+            <div>{sets.length} {sets.length === 1 ? 'set' : 'sets'}</div>
+            <div>{formatSetTotals(totals, metrics, weightUnit)}</div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sets.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">Set</TableHead>
+                  {metrics.includes('weight') && (
+                    <TableHead>{loadMode === 'external' ? `Weight (${weightUnit})` : 'Load'}</TableHead>
+                  )}
+                  {metrics.includes('reps') && <TableHead>Reps</TableHead>}
+                  {metrics.includes('duration') && <TableHead>Time</TableHead>}
+                  {metrics.includes('distance') && <TableHead>Distance</TableHead>}
+                  <TableHead>Effort</TableHead>
+                  {showOneRepMax && <TableHead>e1RM</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sets.map((set, index) => {
+                  const effectiveSet = effectiveSets[index]
+                  const recordLabels = personalRecords
+                    .filter((record) => record.setId === set.id)
+                    .map((record) => personalRecordLabels[record.recordType])
+
+                  return (
+                    <TableRow key={set.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {set.setNumber}
+                          <SetTypeBadge setType={set.setType} />
+                          {recordLabels.length > 0 && (
+                            <Badge variant="secondary" title={recordLabels.join(', ')}>
+                              <Trophy />
+                              PR
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      {metrics.includes('weight') && (
+                        <TableCell>
+                          {set.weightKg !== null ? formatLoad(set.weightKg, loadMode, weightUnit) : '—'}
+                        </TableCell>
+                      )}
+                      {metrics.includes('reps') && <TableCell>{set.reps ?? '—'}</TableCell>}
+                      {metrics.includes('duration') && (
+                        <TableCell>
+                          {set.durationSeconds !== null ? formatSetDuration(set.durationSeconds) : '—'}
+                        </TableCell>
+                      )}
+                      {metrics.includes('distance') && (
+                        <TableCell>
+                          {set.distanceMeters !== null ? formatDistance(set.distanceMeters) : '—'}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-muted-foreground">
+                        {formatEffort(set) ?? '—'}
+                      </TableCell>
+                      {showOneRepMax && (
+                        <TableCell className="text-muted-foreground">
+                          {hasLoadAndReps(effectiveSet)
+                            ? formatWeight(
+                                fromKilograms(
+                                  estimateSetOneRepMax(
+                                    effectiveSet,
+                                    oneRepMaxFormula,
+                                    useEffortForOneRepMax
+                                  ),
+                                  weightUnit
+                                )
+                              )
+                            : '—'}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No sets were logged in this session.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,242 @@
+import { auth } from '@clerk/nextjs/server'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { RepMaxTable } from '@/components/rep-max-table'
+import { ExerciseProgressChart } from '@/components/exercise-progress-chart'
+import { ProgressRangeSelect } from '@/components/progress-range-select'
+import { ArrowLeft, Dumbbell } from 'lucide-react'
+import { getExerciseByIdForUser } from '@/data/exercises'
+import { getExerciseHistoryForUser } from '@/data/workout-exercises'
+import { getPersonalRecordsForExercises } from '@/data/personal-records'
+import { getUserSettings } from '@/data/user-settings'
+import { getExerciseSettingsForUser } from '@/data/exercise-settings'
+import { getExerciseProgressForUser } from '@/data/progress'
+import { formatDate, parseProgressRange, getProgressRangeStart } from '@/lib/utils/date'
+import { getProgressMetricsForExercise, getProgressMetricLabel } from '@/lib/utils/progress'
+import { oneRepMaxFormulaLabels } from '@/lib/utils/strength'
+import { formatWeightInUnit } from '@/lib/utils/units'
+import { DEFAULT_LOAD_MODE, formatLoad } from '@/lib/utils/load-modes'
+import { ExerciseSessionCard } from './_components/exercise-session-card'
+
+/**
+ * Exercise history page listing every session of one exercise
+ * Following /docs/data-fetching.md guidelines:
+ * - Using Server Component for data fetching
+ * - Using helper functions from /data directory
+ * - Filtering by userId (critical security requirement)
+ */
+export default async function ExerciseHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ exerciseId: string }>
+  searchParams: Promise<{ range?: string }>
+}) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const { exerciseId } = await params
+  const exerciseIdNum = parseInt(exerciseId, 10)
+
+  if (isNaN(exerciseIdNum)) {
+    notFound()
+  }
+
+  // Fetch the exercise with the user's history and records for it
+  const [exercise, history, personalRecords, settings, exerciseSettings] = await Promise.all([
+    getExerciseByIdForUser(userId, exerciseIdNum),
+    getExerciseHistoryForUser(userId, exerciseIdNum),
+    getPersonalRecordsForExercises(userId, [exerciseIdNum]),
+    getUserSettings(userId),
+    getExerciseSettingsForUser(userId, [exerciseIdNum]),
+  ])
+
+  if (!exercise) {
+    notFound()
+  }
+
+  // Aggregate per-session metrics for the selected date range
+  const { range: rangeParam } = await searchParams
+  const range = parseProgressRange(rangeParam)
+  const progress = await getExerciseProgressForUser(userId, exerciseIdNum, {
+    from: getProgressRangeStart(range),
+    oneRepMaxFormula: settings.oneRepMaxFormula,
+    excludeWarmupSets: settings.excludeWarmupSets,
+    useEffortForOneRepMax: settings.useEffortForOneRepMax,
+  })
+
+  const loadMode = exerciseSettings[0]?.loadMode ?? DEFAULT_LOAD_MODE
+
+  const maxWeightRecord = personalRecords.find((record) => record.recordType === 'max_weight')
+  const bestOneRepMaxRecord = personalRecords.find((record) => record.recordType === 'best_e1rm')
+  const sessionVolumeRecord = personalRecords.find(
+    (record) => record.recordType === 'best_session_volume'
+  )
+  const bestOneRepMax = bestOneRepMaxRecord ? parseFloat(bestOneRepMaxRecord.value) : 0
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Back Button */}
+        <Link href="/dashboard">
+          <Button variant="ghost">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        {/* Header Section */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{exercise.name}</h1>
+          <p className="text-muted-foreground">
+            {history.length} {history.length === 1 ? 'session' : 'sessions'} logged
+          </p>
+        </div>
+
+        {/* Personal Records */}
+        {personalRecords.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-3">
+            {maxWeightRecord && (
+              <Card>
+                <CardHeader>
+                  <CardDescription>Heaviest Weight</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {loadMode === 'external'
+                      ? formatWeightInUnit(parseFloat(maxWeightRecord.value), settings.weightUnit)
+                      : formatLoad(maxWeightRecord.value, loadMode, settings.weightUnit)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {formatDate(maxWeightRecord.achievedAt)}
+                </CardContent>
+              </Card>
+            )}
+            {bestOneRepMaxRecord && (
+              <Card>
+                <CardHeader>
+                  <CardDescription>Best Estimated 1RM</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {formatWeightInUnit(bestOneRepMax, settings.weightUnit)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {formatLoad(bestOneRepMaxRecord.weightKg ?? '0', loadMode, settings.weightUnit)}
+                  {loadMode === 'external' && ` ${settings.weightUnit}`}{' '}
+                  × {bestOneRepMaxRecord.reps} on {formatDate(bestOneRepMaxRecord.achievedAt)}
+                </CardContent>
+              </Card>
+            )}
+            {sessionVolumeRecord && (
+              <Card>
+                <CardHeader>
+                  <CardDescription>Best Session Volume</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {formatWeightInUnit(parseFloat(sessionVolumeRecord.value), settings.weightUnit)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {formatDate(sessionVolumeRecord.achievedAt)}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
+        {/* Progress Charts */}
+        {history.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Progress</CardTitle>
+                  <CardDescription>One point per session</CardDescription>
+                </div>
+                <ProgressRangeSelect value={range} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {progress.length > 0 ? (
+                <div className="grid gap-6 md:grid-cols-2">
+                  {getProgressMetricsForExercise(exercise.metrics).map((metric) => (
+                    <div key={metric} className="space-y-2">
+                      <h3 className="text-sm font-medium">
+                        {getProgressMetricLabel(metric, settings.weightUnit)}
+                      </h3>
+                      <ExerciseProgressChart
+                        data={progress}
+                        metric={metric}
+                        unit={settings.weightUnit}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No sets logged in this date range.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Rep-Max Table */}
+        {bestOneRepMax > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Rep Maxes</CardTitle>
+              <CardDescription>
+                Estimated from your best e1RM using the {oneRepMaxFormulaLabels[settings.oneRepMaxFormula]} formula
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RepMaxTable
+                oneRepMax={bestOneRepMax}
+                formula={settings.oneRepMaxFormula}
+                unit={settings.weightUnit}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Session History */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">History</h2>
+
+          {history.length > 0 ? (
+            history.map((entry) => (
+              <ExerciseSessionCard
+                key={entry.workoutExercise.id}
+                entry={entry}
+                personalRecords={personalRecords}
+                oneRepMaxFormula={settings.oneRepMaxFormula}
+                excludeWarmupSets={settings.excludeWarmupSets}
+                useEffortForOneRepMax={settings.useEffortForOneRepMax}
+                loadMode={loadMode}
+                metrics={exercise.metrics}
+                weightUnit={settings.weightUnit}
+              />
+            ))
+          ) : (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <div className="rounded-full bg-muted p-4">
+                  <Dumbbell className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h3 className="mt-4 text-lg font-semibold">No sessions yet</h3>
+                <p className="mt-2 text-center text-sm text-muted-foreground">
+                  Add this exercise to a workout to start building its history.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { auth } from '@clerk/nextjs/server'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { History, Search } from 'lucide-react'
+import { getWorkoutHistoryForUser } from '@/data/workouts'
+import { formatDate, formatTime } from '@/lib/utils/date'
+
+const HISTORY_LIMIT = 50
+
+interface HistoryPageProps {
+  searchParams: Promise<{ q?: string }>
+}
+
+/**
+ * Workout History Page
+ * Following /docs/data-fetching.md guidelines:
+ * - Using Server Component for data fetching
+ * - Using helper functions from /data directory
+ * - Filtering by userId (critical security requirement)
+ */
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const params = await searchParams
+  const search = params.q?.trim() ?? ''
+
+  const workouts = await getWorkoutHistoryForUser(userId, {
+    search,
+    limit: HISTORY_LIMIT,
+  })
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Header Section */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">History</h1>
+          <p className="text-muted-foreground">
+            Browse past workouts and search your workout, exercise and set notes
+          </p>
+        </div>
+
+        {/* Search Form */}
+        <form action="/dashboard/history" className="flex gap-2">
+          <Input
+            name="q"
+            type="search"
+            placeholder="Search names and notes, e.g., shoulder"
+            defaultValue={search}
+            aria-label="Search workouts"
+          />
+          <Button type="submit">
+            <Search className="mr-2 h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        {/* Empty State */}
+        {workouts.length === 0 && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="rounded-full bg-muted p-4">
+                <History className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="mt-4 text-lg font-semibold">No workouts found</h3>
+              <p className="mt-2 text-center text-sm text-muted-foreground">
+                {search
+                  ? 'No workouts or notes match your search.'
+                  : 'Workouts you log will show up here.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Workouts List */}
+        {workouts.length > 0 && (
+          <div className="space-y-4">
+            <span className="text-sm text-muted-foreground">
+              {workouts.length === HISTORY_LIMIT
+                ? `Showing the ${HISTORY_LIMIT} most recent workouts`
+                : `${workouts.length} ${workouts.length === 1 ? 'workout' : 'workouts'} found`}
+            </span>
+            {workouts.map((workout) => (
+              <Link key={workout.id} href={`/dashboard/workout/${workout.id}`} className="block">
+                <Card className="hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="text-xl">{workout.name}</CardTitle>
+                    <CardDescription>
+                      {formatDate(workout.startedAt)} at {formatTime(workout.startedAt)}
+                    </CardDescription>
+                  </CardHeader>
+                  {workout.notes && (
+                    <CardContent>
+                      <p className="line-clamp-3 text-sm text-muted-foreground whitespace-pre-wrap">
+                        {workout.notes}
+                      </p>
+                    </CardContent>
+                  )}
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
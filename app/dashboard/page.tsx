@@ -3,14 +3,20 @@ import { redirect } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { formatDate, formatTime, calculateDuration, formatDuration } from '@/lib/utils/date'
-import { CalendarIcon, Clock, Plus } from 'lucide-react'
+import { CalendarIcon, Clock, History, ListChecks, Plus, Settings } from 'lucide-react'
 import Link from 'next/link'
 import { cn } from '@/lib/utils'
 import { WorkoutCalendar } from './_components/workout-calendar'
+import { ProgressOverview } from './_components/progress-overview'
 import { getWorkoutsForUserOnDate } from '@/data/workouts'
+import { getExerciseProgressForUser, getMostTrainedExercisesForUser, getMuscleGroupVolumeForUser } from '@/data/progress'
+import { getUserSettings } from '@/data/user-settings'
+import { getProgramEnrollmentsForUser } from '@/data/programs'
+import { getProgramById, formatProgramPosition } from '@/lib/utils/programs'
+import { parseProgressRange, getProgressRangeStart } from '@/lib/utils/date'
 
 interface DashboardPageProps {
-  searchParams: Promise<{ date?: string }>
+  searchParams: Promise<{ date?: string; range?: string }>
 }
 
 export default async function DashboardPage({ searchParams }: DashboardPageProps) {
@@ -55,17 +61,74 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
   // - Filtered by userId for security
   const workouts = await getWorkoutsForUserOnDate(userId, startOfDay, endOfDay)
 
+  // Progress trends for the most trained exercises in the selected range
+  const range = parseProgressRange(params.range)
+  const [topExercises, settings, enrollments] = await Promise.all([
+    getMostTrainedExercisesForUser(userId, 3),
+    getUserSettings(userId),
+    getProgramEnrollmentsForUser(userId),
+  ])
+  const [progressExercises, muscleGroupVolume] = await Promise.all([
+    Promise.all(
+      topExercises.map(async (exercise) => ({
+        exerciseId: exercise.exerciseId,
+        name: exercise.name,
+        metrics: exercise.metrics,
+        progress: await getExerciseProgressForUser(userId, exercise.exerciseId, {
+          from: getProgressRangeStart(range),
+          oneRepMaxFormula: settings.oneRepMaxFormula,
+          excludeWarmupSets: settings.excludeWarmupSets,
+          useEffortForOneRepMax: settings.useEffortForOneRepMax,
+        }),
+      }))
+    ),
+    getMuscleGroupVolumeForUser(userId, {
+      from: getProgressRangeStart(range),
+      excludeWarmupSets: settings.excludeWarmupSets,
+    }),
+  ])
+
+  // Program names for workouts generated by a program enrollment
+  const programNames = new Map(
+    enrollments.map((enrollment) => [
+      enrollment.id,
+      getProgramById(enrollment.programId)?.name ?? enrollment.programId,
+    ])
+  )
+
   const currentDate = new Date()
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="mx-auto max-w-4xl space-y-6">
         {/* Header Section */}
-        <div className="space-y-2">
-          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-          <p className="text-muted-foreground">
-            Track your workout progress and manage your training schedule
-          </p>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+            <p className="text-muted-foreground">
+              Track your workout progress and manage your training schedule
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/dashboard/history">
+              <Button variant="outline">
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
+            </Link>
+            <Link href="/dashboard/programs">
+              <Button variant="outline">
+                <ListChecks className="mr-2 h-4 w-4" />
+                Programs
+              </Button>
+            </Link>
+            <Link href="/dashboard/settings">
+              <Button variant="outline">
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Date Picker Section */}
@@ -134,6 +197,18 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
                         <span className="text-muted-foreground">Duration</span>
                         <span className="font-medium capitalize">{durationDisplay}</span>
                       </div>
+                      {workout.programEnrollmentId !== null &&
+                        workout.programWeek !== null &&
+                        workout.programDay !== null && (
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-muted-foreground">
+                              {programNames.get(workout.programEnrollmentId) ?? 'Program'}
+                            </span>
+                            <span className="font-medium">
+                              {formatProgramPosition(workout.programWeek, workout.programDay)}
+                            </span>
+                          </div>
+                        )}
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-muted-foreground">Status</span>
                         <span
@@ -167,6 +242,14 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
             </div>
           )}
         </div>
+
+        {/* Progress Section */}
+        <ProgressOverview
+          range={range}
+          unit={settings.weightUnit}
+          exercises={progressExercises}
+          muscleGroupVolume={muscleGroupVolume}
+        />
       </div>
     </div>
   )
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { enrollInProgram, type EnrollInProgramInput } from '../actions'
+import { programInputLabels, type ProgramDefinition } from '@/lib/utils/programs'
+import type { WeightUnit } from '@/lib/utils/units'
+import { format } from 'date-fns'
+
+interface EnrollProgramDialogProps {
+  program: ProgramDefinition
+  unit: WeightUnit
+}
+
+export function EnrollProgramDialog({ program, unit }: EnrollProgramDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Default to starting today
+  const now = new Date()
+  const defaultDate = format(now, 'yyyy-MM-dd')
+  const defaultTime = format(now, 'HH:mm')
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+
+      const startDate = formData.get('startDate') as string
+      const startTime = formData.get('startTime') as string
+
+      const input: EnrollInProgramInput = {
+        programId: program.id,
+        startDate: `${startDate}T${startTime}:00`,
+        inputs: Object.fromEntries(
+          program.lifts.map((lift) => [lift.key, parseFloat(formData.get(lift.key) as string)])
+        ),
+        unit,
+      }
+
+      const result = await enrollInProgram(input)
+
+      if (result.success) {
+        setOpen(false)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Reset state when closing
+      setError(null)
+    }
+    setOpen(open)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="w-full">Enroll</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Enroll in {program.name}</DialogTitle>
+          <DialogDescription>
+            {program.weeks.length} weeks of workouts will be scheduled from the start date
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Start Date and Time */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start Date</Label>
+              <Input
+                id="startDate"
+                name="startDate"
+                type="date"
+                defaultValue={defaultDate}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="startTime">Time</Label>
+              <Input
+                id="startTime"
+                name="startTime"
+                type="time"
+                defaultValue={defaultTime}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          {/* Training Max or Starting Weight per Lift */}
+          <div className="space-y-2">
+            <Label>{programInputLabels[program.input]} ({unit})</Label>
+            <div className="grid grid-cols-2 gap-4">
+              {program.lifts.map((lift) => (
+                <div key={lift.key}>
+                  <Label htmlFor={lift.key} className="text-sm text-muted-foreground">
+                    {lift.label}
+                  </Label>
+                  <Input
+                    id={lift.key}
+                    name={lift.key}
+                    type="number"
+                    step="0.5"
+                    min="0.5"
+                    placeholder="0"
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Scheduling...' : 'Enroll'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
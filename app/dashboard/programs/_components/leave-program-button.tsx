@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { leaveProgram, type LeaveProgramInput } from '../actions'
+
+interface LeaveProgramButtonProps {
+  enrollmentId: number
+  programName: string
+}
+
+export function LeaveProgramButton({ enrollmentId, programName }: LeaveProgramButtonProps) {
+  const router = useRouter()
+  const [isLeaving, setIsLeaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleLeave() {
+    setIsLeaving(true)
+    setError(null)
+
+    try {
+      const input: LeaveProgramInput = { enrollmentId }
+
+      const result = await leaveProgram(input)
+
+      if (result.success) {
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setIsLeaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isLeaving}>
+            {isLeaving ? 'Leaving...' : 'Leave Program'}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {programName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Upcoming workouts from this program that have no logged sets will be deleted. Workouts you have already trained are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLeaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleLeave}
+              disabled={isLeaving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Leave Program
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
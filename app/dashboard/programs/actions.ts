@@ -0,0 +1,100 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { enrollUserInProgram, deleteProgramEnrollmentForUser } from '@/data/programs'
+import { getProgramById } from '@/lib/utils/programs'
+import { weightUnits, toKilograms } from '@/lib/utils/units'
+import { revalidatePath } from 'next/cache'
+
+/**
+ * Validation schema for enrolling in a program
+ * Following /docs/data-mutations.md guidelines:
+ * - Using Zod for input validation
+ * - Strongly-typed parameters (NOT FormData)
+ *
+ * inputs holds the training max or starting weight for each lift in the program,
+ * in the unit given by unit. They are converted to kg before they are stored.
+ */
+const enrollInProgramSchema = z.object({
+  programId: z.string().min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, 'Invalid date format'),
+  inputs: z.record(z.string(), z.number().positive('Weights must be greater than zero').max(2000)),
+  unit: z.enum(weightUnits),
+})
+
+export type EnrollInProgramInput = z.infer<typeof enrollInProgramSchema>
+
+export async function enrollInProgram(input: EnrollInProgramInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = enrollInProgramSchema.parse(input)
+
+  const program = getProgramById(validatedInput.programId)
+  if (!program) {
+    throw new Error('Program not found')
+  }
+
+  // Every lift in the program needs a weight to base its sets on
+  const missingLift = program.lifts.find((lift) => !(lift.key in validatedInput.inputs))
+  if (missingLift) {
+    throw new Error(`Enter a weight for ${missingLift.label}`)
+  }
+
+  // Store the inputs in kg
+  const inputsKg = Object.fromEntries(
+    Object.entries(validatedInput.inputs).map(([lift, weight]) => [
+      lift,
+      toKilograms(weight, validatedInput.unit),
+    ])
+  )
+
+  // Generate the program's workouts using helper function from /data directory
+  const enrollment = await enrollUserInProgram(
+    userId,
+    program,
+    new Date(validatedInput.startDate),
+    inputsKg,
+    validatedInput.unit
+  )
+
+  revalidatePath('/dashboard/programs')
+  revalidatePath('/dashboard')
+
+  return { success: true, enrollmentId: enrollment.id }
+}
+
+/**
+ * Validation schema for leaving a program
+ */
+const leaveProgramSchema = z.object({
+  enrollmentId: z.number().int().positive(),
+})
+
+export type LeaveProgramInput = z.infer<typeof leaveProgramSchema>
+
+export async function leaveProgram(input: LeaveProgramInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = leaveProgramSchema.parse(input)
+
+  // Remove the enrollment and its upcoming workouts
+  await deleteProgramEnrollmentForUser(userId, validatedInput.enrollmentId)
+
+  revalidatePath('/dashboard/programs')
+  revalidatePath('/dashboard')
+
+  return { success: true }
+}
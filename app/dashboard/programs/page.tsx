@@ -0,0 +1,117 @@
+import { auth } from '@clerk/nextjs/server'
+import { redirect } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getProgramEnrollmentsForUser } from '@/data/programs'
+import { getUserSettings } from '@/data/user-settings'
+import { programs, getProgramById, programInputLabels } from '@/lib/utils/programs'
+import { formatWeightInUnit } from '@/lib/utils/units'
+import { formatDate } from '@/lib/utils/date'
+import { EnrollProgramDialog } from './_components/enroll-program-dialog'
+import { LeaveProgramButton } from './_components/leave-program-button'
+
+/**
+ * Training Programs Page
+ * Following /docs/data-fetching.md guidelines:
+ * - Using Server Component for data fetching
+ * - Using helper functions from /data directory
+ * - Filtering by userId (critical security requirement)
+ */
+export default async function ProgramsPage() {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const [enrollments, settings] = await Promise.all([
+    getProgramEnrollmentsForUser(userId),
+    getUserSettings(userId),
+  ])
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Header Section */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Programs</h1>
+          <p className="text-muted-foreground">
+            Follow a multi-week program and have every workout scheduled for you
+          </p>
+        </div>
+
+        {/* Enrolled Programs */}
+        {enrollments.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-semibold tracking-tight">Your Programs</h2>
+            <div className="grid gap-4 md:grid-cols-2">
+              {enrollments.map((enrollment) => {
+                const program = getProgramById(enrollment.programId)
+                const programName = program?.name ?? enrollment.programId
+
+                return (
+                  <Card key={enrollment.id}>
+                    <CardHeader>
+                      <CardTitle className="text-xl">{programName}</CardTitle>
+                      <CardDescription>
+                        Started {formatDate(enrollment.startDate)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {program && (
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">
+                            {programInputLabels[program.input]}
+                          </p>
+                          {program.lifts.map((lift) => (
+                            <div
+                              key={lift.key}
+                              className="flex items-center justify-between text-sm"
+                            >
+                              <span className="text-muted-foreground">{lift.label}</span>
+                              <span className="font-medium">
+                                {formatWeightInUnit(enrollment.inputs[lift.key] ?? 0, settings.weightUnit)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <LeaveProgramButton
+                        enrollmentId={enrollment.id}
+                        programName={programName}
+                      />
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Available Programs */}
+        <div className="space-y-4">
+          <h2 className="text-2xl font-semibold tracking-tight">Available Programs</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {programs.map((program) => (
+              <Card key={program.id}>
+                <CardHeader>
+                  <CardTitle className="text-xl">{program.name}</CardTitle>
+                  <CardDescription>{program.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Length</span>
+                    <span className="font-medium">
+                      {program.weeks.length} weeks · {program.weeks[0].days.length} days per week
+                    </span>
+                  </div>
+                  <EnrollProgramDialog program={program} unit={settings.weightUnit} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Check, Pencil, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  renameExercise,
+  updateExerciseMetrics,
+  deleteExercise,
+  type RenameExerciseInput,
+  type UpdateExerciseMetricsInput,
+  type DeleteExerciseInput,
+} from '../actions'
+import { setMetrics, setMetricLabels, type SetMetric } from '@/lib/utils/set-metrics'
+
+/**
+ * List of the user's custom exercises with rename, tracked metrics and delete
+ * Following /docs/ui.md guidelines:
+ * - Using shadcn/ui components only
+ */
+
+type CustomExercise = {
+  id: number
+  name: string
+  metrics: SetMetric[]
+}
+
+interface CustomExercisesFormProps {
+  exercises: CustomExercise[]
+}
+
+function CustomExerciseRow({ exercise }: { exercise: CustomExercise }) {
+  const router = useRouter()
+  const [isEditing, setIsEditing] = useState(false)
+  const [name, setName] = useState(exercise.name)
+  const [trackedMetrics, setTrackedMetrics] = useState(exercise.metrics)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function handleCancel() {
+    setName(exercise.name)
+    setIsEditing(false)
+    setError(null)
+  }
+
+  async function handleRename(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: RenameExerciseInput = { exerciseId: exercise.id, name }
+
+      const result = await renameExercise(input)
+
+      if (result.success) {
+        setIsEditing(false)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleToggleMetric(metric: SetMetric, checked: boolean) {
+    const nextMetrics = checked
+      ? [...trackedMetrics, metric]
+      : trackedMetrics.filter((tracked) => tracked !== metric)
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: UpdateExerciseMetricsInput = { exerciseId: exercise.id, metrics: nextMetrics }
+
+      const result = await updateExerciseMetrics(input)
+
+      if (result.success) {
+        setTrackedMetrics(result.metrics)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleDelete() {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: DeleteExerciseInput = { exerciseId: exercise.id }
+
+      const result = await deleteExercise(input)
+
+      if (result.success) {
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      {isEditing ? (
+        <form onSubmit={handleRename} className="flex items-center gap-2">
+          <Input
+            aria-label="Exercise name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={255}
+            required
+            disabled={isLoading}
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={isLoading || !name.trim()}>
+            <Check className="h-4 w-4" />
+            <span className="sr-only">Save name</span>
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={handleCancel} disabled={isLoading}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Cancel rename</span>
+          </Button>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <Link
+            href={`/dashboard/exercises/${exercise.id}`}
+            className="font-medium hover:underline"
+          >
+            {exercise.name}
+          </Link>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+              disabled={isLoading}
+            >
+              <Pencil className="h-4 w-4" />
+              <span className="sr-only">Rename {exercise.name}</span>
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={isLoading}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete {exercise.name}</span>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {exercise.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This exercise will be removed from your exercise list. Exercises that are still used in a workout or template cannot be deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDelete}
+                    disabled={isLoading}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete Exercise
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+
+      {/* Tracked Metrics */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="text-sm text-muted-foreground">Sets record</span>
+        {setMetrics.map((metric) => (
+          <div key={metric} className="flex items-center space-x-2">
+            <Checkbox
+              id={`metric-${exercise.id}-${metric}`}
+              checked={trackedMetrics.includes(metric)}
+              onCheckedChange={(checked) => handleToggleMetric(metric, checked === true)}
+              disabled={isLoading}
+            />
+            <Label
+              htmlFor={`metric-${exercise.id}-${metric}`}
+              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              {setMetricLabels[metric]}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function CustomExercisesForm({ exercises }: CustomExercisesFormProps) {
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>Custom Exercises</CardTitle>
+        <CardDescription>
+          Exercises you added yourself. Only you can see them. Choose what each set records,
+          e.g. time for holds or distance for carries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {exercises.length > 0 ? (
+          <div className="space-y-2">
+            {exercises.map((exercise) => (
+              <CustomExerciseRow key={`${exercise.id}-${exercise.name}`} exercise={exercise} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Exercises you add to a workout that are not in the catalog will appear here.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
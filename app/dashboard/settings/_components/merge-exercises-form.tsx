@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { mergeExercises, type MergeExercisesInput } from '../actions'
+import { haveSameSetMetrics } from '@/lib/utils/set-metrics'
+import type { Exercise } from '@/types/workout'
+
+/**
+ * Form for merging a duplicate exercise into another one
+ * Following /docs/ui.md guidelines:
+ * - Using shadcn/ui components only
+ */
+
+interface MergeExercisesFormProps {
+  exercises: Exercise[]
+  canMergeGlobal: boolean
+}
+
+export function MergeExercisesForm({ exercises, canMergeGlobal }: MergeExercisesFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mergedMessage, setMergedMessage] = useState<string | null>(null)
+  const [sourceId, setSourceId] = useState('')
+  const [targetId, setTargetId] = useState('')
+
+  // Custom exercises can be merged by their owner; catalog exercises only by admins
+  const sources = exercises.filter((exercise) => exercise.userId !== null || canMergeGlobal)
+  const source = exercises.find((exercise) => String(exercise.id) === sourceId)
+  const target = exercises.find((exercise) => String(exercise.id) === targetId)
+
+  // A catalog exercise can only be merged into another catalog exercise, and the
+  // moved sets must record the same values as the target's
+  const targets = source
+    ? exercises.filter(
+        (exercise) =>
+          exercise.id !== source.id &&
+          (source.userId !== null || exercise.userId === null) &&
+          haveSameSetMetrics(exercise.metrics, source.metrics)
+      )
+    : []
+
+  function handleSourceChange(value: string) {
+    setSourceId(value)
+    setTargetId('')
+    setMergedMessage(null)
+  }
+
+  async function handleMerge() {
+    if (!source || !target) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    setMergedMessage(null)
+
+    try {
+      // Call Server Action
+      // Following /docs/data-mutations.md guidelines:
+      // - Using Server Action with strongly-typed parameters
+      const input: MergeExercisesInput = {
+        sourceExerciseId: source.id,
+        targetExerciseId: target.id,
+      }
+
+      const result = await mergeExercises(input)
+
+      if (result.success) {
+        setMergedMessage(`${source.name} was merged into ${result.name}`)
+        setSourceId('')
+        setTargetId('')
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (sources.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>Merge Duplicate Exercises</CardTitle>
+        <CardDescription>
+          Move all history from one exercise to another. The merged exercise is deleted and its name
+          keeps working as an alias.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {/* Source Exercise */}
+          <div className="space-y-2">
+            <Label htmlFor="mergeSource">Merge</Label>
+            <Select value={sourceId} onValueChange={handleSourceChange} disabled={isLoading}>
+              <SelectTrigger id="mergeSource" className="w-full">
+                <SelectValue placeholder="Choose an exercise" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((exercise) => (
+                  <SelectItem key={exercise.id} value={String(exercise.id)}>
+                    {exercise.name}
+                    {exercise.userId !== null && ' (custom)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Target Exercise */}
+          <div className="space-y-2">
+            <Label htmlFor="mergeTarget">Into</Label>
+            <Select
+              value={targetId}
+              onValueChange={setTargetId}
+              disabled={isLoading || !source}
+            >
+              <SelectTrigger id="mergeTarget" className="w-full">
+                <SelectValue placeholder="Choose an exercise" />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((exercise) => (
+                  <SelectItem key={exercise.id} value={String(exercise.id)}>
+                    {exercise.name}
+                    {exercise.userId !== null && ' (custom)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Success Message */}
+        {mergedMessage && (
+          <div className="rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900 dark:text-green-300">
+            {mergedMessage}
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button disabled={isLoading || !source || !target}>
+              {isLoading ? 'Merging...' : 'Merge Exercises'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Merge {source?.name} into {target?.name}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {source?.userId === null
+                  ? 'This is a catalog exercise. Every user’s workouts, templates and records for it move to the other exercise.'
+                  : 'Your workouts, templates and records for it move to the other exercise.'}{' '}
+                This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleMerge}
+                disabled={isLoading}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Merge Exercises
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updatePlateSetup, type UpdatePlateSetupInput } from '../actions'
+import {
+  defaultPlateSetups,
+  MAX_PLATE_COUNT,
+  MAX_PLATE_SIZES,
+  MAX_PLATE_WEIGHT,
+  PLATE_WEIGHT_STEP,
+  type PlateSetup,
+} from '@/lib/utils/plates'
+import { weightUnits, weightUnitLabels, type WeightUnit } from '@/lib/utils/units'
+
+/**
+ * Bar weight and plate inventory form for the plate calculator
+ * Following /docs/ui.md guidelines:
+ * - Using shadcn/ui components only
+ */
+
+interface PlateSetupFormProps {
+  plateSetup: PlateSetup
+  weightUnit: WeightUnit
+}
+
+type PlateRow = {
+  weight: string
+  count: string
+}
+
+function toPlateRows(setup: PlateSetup): PlateRow[] {
+  return setup.plates.map((plate) => ({
+    weight: String(plate.weight),
+    count: String(plate.count),
+  }))
+}
+
+export function PlateSetupForm({ plateSetup, weightUnit }: PlateSetupFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [unit, setUnit] = useState<WeightUnit>(plateSetup.unit)
+  const [barWeight, setBarWeight] = useState(String(plateSetup.barWeight))
+  const [plates, setPlates] = useState<PlateRow[]>(toPlateRows(plateSetup))
+
+  // Plates are marked in one unit, so switching starts from that unit's standard set
+  function handleUnitChange(value: WeightUnit) {
+    setUnit(value)
+    setBarWeight(String(defaultPlateSetups[value].barWeight))
+    setPlates(toPlateRows(defaultPlateSetups[value]))
+  }
+
+  function updatePlate(index: number, field: keyof PlateRow, value: string) {
+    setPlates((current) =>
+      current.map((plate, i) => (i === index ? { ...plate, [field]: value } : plate))
+    )
+  }
+
+  async function save(input: UpdatePlateSetupInput) {
+    setIsLoading(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      // Call Server Action
+      // Following /docs/data-mutations.md guidelines:
+      // - Using Server Action with strongly-typed parameters
+      const result = await updatePlateSetup(input)
+
+      if (result.success) {
+        setSaved(true)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+
+    await save({
+      plateSetup: {
+        unit,
+        barWeight: Number(barWeight),
+        plates: plates.map((plate) => ({
+          weight: Number(plate.weight),
+          count: Number(plate.count),
+        })),
+      },
+    })
+  }
+
+  async function handleReset() {
+    const defaults = defaultPlateSetups[weightUnit]
+    setUnit(defaults.unit)
+    setBarWeight(String(defaults.barWeight))
+    setPlates(toPlateRows(defaults))
+
+    await save({ plateSetup: null })
+  }
+
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>Bar & Plates</CardTitle>
+        <CardDescription>
+          Used by the plate calculator to work out what to load on each side of the bar
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            {/* Plate Unit */}
+            <div className="space-y-2">
+              <Label htmlFor="plateUnit">Plates Marked In</Label>
+              <Select
+                value={unit}
+                onValueChange={(value) => handleUnitChange(value as WeightUnit)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="plateUnit" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weightUnits.map((plateUnit) => (
+                    <SelectItem key={plateUnit} value={plateUnit}>
+                      {weightUnitLabels[plateUnit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Bar Weight */}
+            <div className="space-y-2">
+              <Label htmlFor="barWeight">Bar Weight ({unit})</Label>
+              <Input
+                id="barWeight"
+                type="number"
+                step="any"
+                min="0"
+                value={barWeight}
+                onChange={(e) => setBarWeight(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          {/* Plate Inventory */}
+          <div className="space-y-2">
+            <Label>Plates Owned</Label>
+            <p className="text-sm text-muted-foreground">
+              Enter the total number of each plate; half go on each side
+            </p>
+            <div className="space-y-2">
+              {plates.map((plate, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step={PLATE_WEIGHT_STEP}
+                    min="0"
+                    max={MAX_PLATE_WEIGHT}
+                    aria-label="Plate weight"
+                    placeholder={`Weight (${unit})`}
+                    value={plate.weight}
+                    onChange={(e) => updatePlate(index, 'weight', e.target.value)}
+                    required
+                    disabled={isLoading}
+                  />
+                  <span className="text-sm text-muted-foreground">{unit} ×</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={MAX_PLATE_COUNT}
+                    aria-label="Plate count"
+                    placeholder="Count"
+                    value={plate.count}
+                    onChange={(e) => updatePlate(index, 'count', e.target.value)}
+                    required
+                    disabled={isLoading}
+                    className="w-24"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPlates((current) => current.filter((_, i) => i !== index))}
+                    disabled={isLoading}
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove plate</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPlates((current) => [...current, { weight: '', count: '2' }])}
+              disabled={isLoading || plates.length >= MAX_PLATE_SIZES}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Plate
+            </Button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {/* Success Message */}
+          {saved && (
+            <div className="rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900 dark:text-green-300">
+              Plates saved
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex gap-4">
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1"
+            >
+              {isLoading ? 'Saving...' : 'Save Plates'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleReset}
+              disabled={isLoading}
+            >
+              Reset to Defaults
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
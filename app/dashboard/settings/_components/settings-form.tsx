@@ -0,0 +1,215 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updateSettings, type UpdateSettingsInput } from '../actions'
+import {
+  oneRepMaxFormulas,
+  oneRepMaxFormulaLabels,
+  type OneRepMaxFormula,
+} from '@/lib/utils/strength'
+import { weightUnits, weightUnitLabels, type WeightUnit } from '@/lib/utils/units'
+import type { UserSettings } from '@/types/workout'
+
+/**
+ * User settings form component
+ * Following /docs/ui.md guidelines:
+ * - Using shadcn/ui components only
+ */
+
+interface SettingsFormProps {
+  settings: UserSettings
+}
+
+export function SettingsForm({ settings }: SettingsFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(settings.weightUnit)
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState<OneRepMaxFormula>(
+    settings.oneRepMaxFormula
+  )
+  const [excludeWarmupSets, setExcludeWarmupSets] = useState(settings.excludeWarmupSets)
+  const [useEffortForOneRepMax, setUseEffortForOneRepMax] = useState(
+    settings.useEffortForOneRepMax
+  )
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      const input: UpdateSettingsInput = {
+        oneRepMaxFormula,
+        excludeWarmupSets,
+        useEffortForOneRepMax,
+        weightUnit,
+      }
+
+      // Call Server Action
+      // Following /docs/data-mutations.md guidelines:
+      // - Using Server Action with strongly-typed parameters
+      const result = await updateSettings(input)
+
+      if (result.success) {
+        setSaved(true)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>Preferences</CardTitle>
+        <CardDescription>
+          These preferences apply to every workout and exercise
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Weight Unit */}
+          <div className="space-y-2">
+            <Label htmlFor="weightUnit">Weight Unit</Label>
+            <Select
+              value={weightUnit}
+              onValueChange={(value) => setWeightUnit(value as WeightUnit)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="weightUnit" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {weightUnits.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {weightUnitLabels[unit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Used when entering and viewing weights; your existing data is converted automatically
+            </p>
+          </div>
+
+          {/* Estimated 1RM Formula */}
+          <div className="space-y-2">
+            <Label htmlFor="oneRepMaxFormula">Estimated 1RM Formula</Label>
+            <Select
+              value={oneRepMaxFormula}
+              onValueChange={(value) => setOneRepMaxFormula(value as OneRepMaxFormula)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="oneRepMaxFormula" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {oneRepMaxFormulas.map((formula) => (
+                  <SelectItem key={formula} value={formula}>
+                    {oneRepMaxFormulaLabels[formula]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Used for the e1RM column, rep-max tables and estimated 1RM records
+            </p>
+          </div>
+
+          {/* Exclude Warm-up Sets */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="excludeWarmupSets"
+                checked={excludeWarmupSets}
+                onCheckedChange={(checked) => setExcludeWarmupSets(checked === true)}
+                disabled={isLoading}
+              />
+              <Label
+                htmlFor="excludeWarmupSets"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Exclude warm-up sets from statistics
+              </Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Warm-ups are left out of volume, estimated 1RMs, progress charts and personal records
+            </p>
+          </div>
+
+          {/* Use RPE/RIR for Estimated 1RM */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="useEffortForOneRepMax"
+                checked={useEffortForOneRepMax}
+                onCheckedChange={(checked) => setUseEffortForOneRepMax(checked === true)}
+                disabled={isLoading}
+              />
+              <Label
+                htmlFor="useEffortForOneRepMax"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Adjust estimated 1RM for RPE and RIR
+              </Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Reps left in reserve are counted as reps you could have done (e.g. 5 reps at RPE 8 counts as 7)
+            </p>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {/* Success Message */}
+          {saved && (
+            <div className="rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900 dark:text-green-300">
+              Settings saved
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex gap-4">
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1"
+            >
+              {isLoading ? 'Saving...' : 'Save Settings'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => router.push('/dashboard')}
+              disabled={isLoading}
+            >
+              Back to Dashboard
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { updateWarmupScheme, type UpdateWarmupSchemeInput } from '../actions'
+import {
+  DEFAULT_WARMUP_SCHEME,
+  MAX_WARMUP_STEPS,
+  formatWarmupStep,
+  type WarmupStep,
+} from '@/lib/utils/warmups'
+
+/**
+ * Warm-up scheme form for the warm-up generator
+ * Following /docs/ui.md guidelines:
+ * - Using shadcn/ui components only
+ */
+
+interface WarmupSchemeFormProps {
+  warmupScheme: WarmupStep[]
+}
+
+type WarmupRow = {
+  percent: string
+  reps: string
+}
+
+function toWarmupRows(scheme: WarmupStep[]): WarmupRow[] {
+  return scheme.map((step) => ({
+    percent: String(step.percent),
+    reps: String(step.reps),
+  }))
+}
+
+export function WarmupSchemeForm({ warmupScheme }: WarmupSchemeFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [steps, setSteps] = useState<WarmupRow[]>(toWarmupRows(warmupScheme))
+
+  function updateStep(index: number, field: keyof WarmupRow, value: string) {
+    setSteps((current) =>
+      current.map((step, i) => (i === index ? { ...step, [field]: value } : step))
+    )
+  }
+
+  async function save(input: UpdateWarmupSchemeInput) {
+    setIsLoading(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      // Call Server Action
+      // Following /docs/data-mutations.md guidelines:
+      // - Using Server Action with strongly-typed parameters
+      const result = await updateWarmupScheme(input)
+
+      if (result.success) {
+        setSaved(true)
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+
+    await save({
+      warmupScheme: steps.map((step) => ({
+        percent: Number(step.percent),
+        reps: Number(step.reps),
+      })),
+    })
+  }
+
+  async function handleReset() {
+    setSteps(toWarmupRows(DEFAULT_WARMUP_SCHEME))
+
+    await save({ warmupScheme: null })
+  }
+
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle>Warm-up Scheme</CardTitle>
+        <CardDescription>
+          Generated warm-ups ramp up to your working weight, rounded to weights your plates can load
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label>Warm-up Steps</Label>
+            <p className="text-sm text-muted-foreground">
+              Percent of the working weight and reps for each step; 0% is the empty bar
+            </p>
+            <div className="space-y-2">
+              {steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="99"
+                    aria-label="Percent of working weight"
+                    placeholder="Percent"
+                    value={step.percent}
+                    onChange={(e) => updateStep(index, 'percent', e.target.value)}
+                    required
+                    disabled={isLoading}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">% ×</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="20"
+                    aria-label="Reps"
+                    placeholder="Reps"
+                    value={step.reps}
+                    onChange={(e) => updateStep(index, 'reps', e.target.value)}
+                    required
+                    disabled={isLoading}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">reps</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSteps((current) => current.filter((_, i) => i !== index))}
+                    disabled={isLoading || steps.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove step</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setSteps((current) => [...current, { percent: '', reps: '' }])}
+              disabled={isLoading || steps.length >= MAX_WARMUP_STEPS}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Step
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Default: {DEFAULT_WARMUP_SCHEME.map(formatWarmupStep).join(', ')}
+            </p>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {/* Success Message */}
+          {saved && (
+            <div className="rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900 dark:text-green-300">
+              Warm-up scheme saved
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex gap-4">
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="flex-1"
+            >
+              {isLoading ? 'Saving...' : 'Save Warm-ups'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleReset}
+              disabled={isLoading}
+            >
+              Reset to Defaults
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,311 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { updateUserSettings } from '@/data/user-settings'
+import { getTrainedExerciseIdsForUser } from '@/data/workout-exercises'
+import { recomputePersonalRecords } from '@/data/personal-records'
+import {
+  renameExerciseForUser,
+  updateExerciseMetricsForUser,
+  deleteExerciseForUser,
+  mergeExercisesForUser,
+} from '@/data/exercises'
+import { isCurrentUserAdmin } from '@/lib/auth'
+import { oneRepMaxFormulas } from '@/lib/utils/strength'
+import { weightUnits } from '@/lib/utils/units'
+import { MAX_WARMUP_STEPS } from '@/lib/utils/warmups'
+import { setMetrics } from '@/lib/utils/set-metrics'
+import { MAX_PLATE_COUNT, MAX_PLATE_SIZES, MAX_PLATE_WEIGHT, PLATE_WEIGHT_STEP } from '@/lib/utils/plates'
+import { revalidatePath } from 'next/cache'
+
+/**
+ * Validation schema for updating user settings
+ * Following /docs/data-mutations.md guidelines:
+ * - Using Zod for input validation
+ * - Strongly-typed parameters (NOT FormData)
+ */
+const updateSettingsSchema = z.object({
+  oneRepMaxFormula: z.enum(oneRepMaxFormulas),
+  excludeWarmupSets: z.boolean(),
+  useEffortForOneRepMax: z.boolean(),
+  weightUnit: z.enum(weightUnits),
+})
+
+export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>
+
+export async function updateSettings(input: UpdateSettingsInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updateSettingsSchema.parse(input)
+
+  // Save settings using helper function from /data directory
+  const settings = await updateUserSettings(userId, {
+    oneRepMaxFormula: validatedInput.oneRepMaxFormula,
+    excludeWarmupSets: validatedInput.excludeWarmupSets,
+    useEffortForOneRepMax: validatedInput.useEffortForOneRepMax,
+    weightUnit: validatedInput.weightUnit,
+  })
+
+  // Records depend on the formula and on which sets count, so rebuild them
+  const exerciseIds = await getTrainedExerciseIdsForUser(userId)
+  for (const exerciseId of exerciseIds) {
+    await recomputePersonalRecords(userId, exerciseId)
+  }
+
+  // Every dashboard page may display values derived from settings
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, oneRepMaxFormula: settings.oneRepMaxFormula }
+}
+
+/**
+ * Validation schema for the bar and plate inventory used by the plate calculator
+ * Weights are in the unit the plates are marked in, not converted to kilograms
+ */
+const plateSetupSchema = z.object({
+  unit: z.enum(weightUnits),
+  barWeight: z.number().min(0).max(100),
+  plates: z
+    .array(
+      z.object({
+        weight: z
+          .number()
+          .positive()
+          .max(MAX_PLATE_WEIGHT)
+          .multipleOf(PLATE_WEIGHT_STEP, `Plate weights must be in steps of ${PLATE_WEIGHT_STEP}`),
+        count: z.number().int().min(1).max(MAX_PLATE_COUNT),
+      })
+    )
+    .max(MAX_PLATE_SIZES, `Up to ${MAX_PLATE_SIZES} plate sizes`)
+    .refine(
+      (plates) => new Set(plates.map((plate) => plate.weight)).size === plates.length,
+      'Each plate size can only be listed once'
+    ),
+})
+
+const updatePlateSetupSchema = z.object({
+  // null resets to the default setup for the user's weight unit
+  plateSetup: plateSetupSchema.nullable(),
+})
+
+export type UpdatePlateSetupInput = z.infer<typeof updatePlateSetupSchema>
+
+export async function updatePlateSetup(input: UpdatePlateSetupInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updatePlateSetupSchema.parse(input)
+
+  // Save plate setup using helper function from /data directory
+  const settings = await updateUserSettings(userId, {
+    plateSetup: validatedInput.plateSetup,
+  })
+
+  // The plate calculator is available on every workout page
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, plateSetup: settings.plateSetup }
+}
+
+/**
+ * Validation schema for the warm-up ramp used by the warm-up generator
+ */
+const updateWarmupSchemeSchema = z.object({
+  // null resets to the default scheme
+  warmupScheme: z
+    .array(
+      z.object({
+        percent: z.number().int().min(0).max(99),
+        reps: z.number().int().min(1).max(20),
+      })
+    )
+    .min(1, 'Add at least one warm-up step')
+    .max(MAX_WARMUP_STEPS, `Use at most ${MAX_WARMUP_STEPS} warm-up steps`)
+    .nullable(),
+})
+
+export type UpdateWarmupSchemeInput = z.infer<typeof updateWarmupSchemeSchema>
+
+export async function updateWarmupScheme(input: UpdateWarmupSchemeInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updateWarmupSchemeSchema.parse(input)
+
+  // Save warm-up scheme using helper function from /data directory
+  const settings = await updateUserSettings(userId, {
+    warmupScheme: validatedInput.warmupScheme,
+  })
+
+  revalidatePath('/dashboard/settings')
+
+  return { success: true, warmupScheme: settings.warmupScheme }
+}
+
+/**
+ * Validation schema for renaming a custom exercise
+ */
+const renameExerciseSchema = z.object({
+  exerciseId: z.number().int().positive(),
+  name: z.string().trim().min(1, 'Exercise name is required').max(255, 'Name is too long'),
+})
+
+export type RenameExerciseInput = z.infer<typeof renameExerciseSchema>
+
+export async function renameExercise(input: RenameExerciseInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = renameExerciseSchema.parse(input)
+
+  // Rename using helper function from /data directory (only the user's own exercises)
+  const exercise = await renameExerciseForUser(userId, validatedInput.exerciseId, validatedInput.name)
+
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+
+  // Exercise names appear throughout the dashboard
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, name: exercise.name }
+}
+
+/**
+ * Validation schema for choosing what a custom exercise's sets record
+ */
+const updateExerciseMetricsSchema = z.object({
+  exerciseId: z.number().int().positive(),
+  metrics: z.array(z.enum(setMetrics)).min(1, 'Choose at least one thing to track'),
+})
+
+export type UpdateExerciseMetricsInput = z.infer<typeof updateExerciseMetricsSchema>
+
+export async function updateExerciseMetrics(input: UpdateExerciseMetricsInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updateExerciseMetricsSchema.parse(input)
+
+  // Update using helper function from /data directory (only the user's own exercises)
+  const exercise = await updateExerciseMetricsForUser(
+    userId,
+    validatedInput.exerciseId,
+    validatedInput.metrics
+  )
+
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+
+  // Records only count sets that carry the metrics being tracked, so rebuild them
+  await recomputePersonalRecords(userId, exercise.id)
+
+  // The metrics decide the set inputs, history columns and charts
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, metrics: exercise.metrics }
+}
+
+/**
+ * Validation schema for deleting a custom exercise
+ */
+const deleteExerciseSchema = z.object({
+  exerciseId: z.number().int().positive(),
+})
+
+export type DeleteExerciseInput = z.infer<typeof deleteExerciseSchema>
+
+export async function deleteExercise(input: DeleteExerciseInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = deleteExerciseSchema.parse(input)
+
+  // Delete using helper function from /data directory (only the user's own, unused exercises)
+  const exercise = await deleteExerciseForUser(userId, validatedInput.exerciseId)
+
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, exerciseId: exercise.id }
+}
+
+/**
+ * Validation schema for merging a duplicate exercise into another one
+ */
+const mergeExercisesSchema = z
+  .object({
+    sourceExerciseId: z.number().int().positive(),
+    targetExerciseId: z.number().int().positive(),
+  })
+  .refine((input) => input.sourceExerciseId !== input.targetExerciseId, {
+    message: 'Choose two different exercises',
+    path: ['targetExerciseId'],
+  })
+
+export type MergeExercisesInput = z.infer<typeof mergeExercisesSchema>
+
+export async function mergeExercises(input: MergeExercisesInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = mergeExercisesSchema.parse(input)
+
+  // Merge using helper function from /data directory
+  // Catalog exercises are shared by everyone, so only admins may merge them
+  const exercise = await mergeExercisesForUser(
+    userId,
+    validatedInput.sourceExerciseId,
+    validatedInput.targetExerciseId,
+    { canMergeGlobal: await isCurrentUserAdmin() }
+  )
+
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+
+  revalidatePath('/dashboard', 'layout')
+
+  return { success: true, exerciseId: exercise.id, name: exercise.name }
+}
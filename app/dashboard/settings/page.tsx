@@ -0,0 +1,67 @@
+import { auth } from '@clerk/nextjs/server'
+import { redirect } from 'next/navigation'
+import { getUserSettings } from '@/data/user-settings'
+import { getCustomExercisesForUser, getExercisesForUser } from '@/data/exercises'
+import { isCurrentUserAdmin } from '@/lib/auth'
+import { SettingsForm } from './_components/settings-form'
+import { PlateSetupForm } from './_components/plate-setup-form'
+import { WarmupSchemeForm } from './_components/warmup-scheme-form'
+import { CustomExercisesForm } from './_components/custom-exercises-form'
+import { MergeExercisesForm } from './_components/merge-exercises-form'
+import { getPlateSetup } from '@/lib/utils/plates'
+import { getWarmupScheme } from '@/lib/utils/warmups'
+
+/**
+ * Settings Page
+ * Following /docs/data-fetching.md guidelines:
+ * - Using Server Component for data fetching
+ * - Using helper functions from /data directory
+ * - Filtering by userId (critical security requirement)
+ */
+export default async function SettingsPage() {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    redirect('/sign-in')
+  }
+
+  const [settings, customExercises, allExercises, isAdmin] = await Promise.all([
+    getUserSettings(userId),
+    getCustomExercisesForUser(userId),
+    getExercisesForUser(userId),
+    isCurrentUserAdmin(),
+  ])
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        {/* Header Section */}
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+          <p className="text-muted-foreground">
+            Choose how your training data is calculated and displayed
+          </p>
+        </div>
+
+        {/* Settings Form */}
+        <SettingsForm settings={settings} />
+
+        {/* Plate Calculator Setup */}
+        <PlateSetupForm
+          plateSetup={getPlateSetup(settings.plateSetup, settings.weightUnit)}
+          weightUnit={settings.weightUnit}
+        />
+
+        {/* Warm-up Generator Setup */}
+        <WarmupSchemeForm warmupScheme={getWarmupScheme(settings.warmupScheme)} />
+
+        {/* Custom Exercises */}
+        <CustomExercisesForm exercises={customExercises} />
+
+        {/* Merge Duplicate Exercises */}
+        <MergeExercisesForm exercises={allExercises} canMergeGlobal={isAdmin} />
+      </div>
+    </div>
+  )
+}
@@ -5,13 +5,15 @@ import { Button } from '@/components/ui/button'
 import { Plus } from 'lucide-react'
 import { AddExerciseDialog } from './add-exercise-dialog'
 import type { Exercise } from '@/types/workout'
+import type { ExerciseAliasName } from '@/lib/utils/exercise-names'
 
 interface AddExerciseButtonProps {
   workoutId: number
   exercises: Exercise[]
+  aliases: ExerciseAliasName[]
 }
 
-export function AddExerciseButton({ workoutId, exercises }: AddExerciseButtonProps) {
+export function AddExerciseButton({ workoutId, exercises, aliases }: AddExerciseButtonProps) {
   const [showDialog, setShowDialog] = useState(false)
 
   return (
@@ -23,6 +25,7 @@ export function AddExerciseButton({ workoutId, exercises }: AddExerciseButtonPro
       <AddExerciseDialog
         workoutId={workoutId}
         exercises={exercises}
+        aliases={aliases}
         open={showDialog}
         onOpenChange={setShowDialog}
       />
@@ -18,36 +18,82 @@ import {
   CommandItem,
   CommandList,
 } from '@/components/ui/command'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { addExercise, type AddExerciseInput } from '../actions'
 import { Check } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import {
+  muscleGroups,
+  muscleGroupLabels,
+  equipmentTypes,
+  equipmentLabels,
+  movementPatterns,
+  movementPatternLabels,
+  matchesExerciseFilters,
+  formatExerciseMetadata,
+  EMPTY_EXERCISE_FILTERS,
+  type ExerciseFilters,
+} from '@/lib/utils/exercise-catalog'
+import {
+  findExerciseByName,
+  findSimilarExercises,
+  type ExerciseAliasName,
+} from '@/lib/utils/exercise-names'
 import type { Exercise } from '@/types/workout'
 
 interface AddExerciseDialogProps {
   workoutId: number
   exercises: Exercise[]
+  aliases: ExerciseAliasName[]
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }: AddExerciseDialogProps) {
+export function AddExerciseDialog({
+  workoutId,
+  exercises,
+  aliases,
+  open,
+  onOpenChange,
+}: AddExerciseDialogProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedExercise, setSelectedExercise] = useState<string>('')
   const [searchValue, setSearchValue] = useState('')
+  const [filters, setFilters] = useState<ExerciseFilters>(EMPTY_EXERCISE_FILTERS)
+  // Existing exercises offered before a new one is created (null until the user tries to create one)
+  const [suggestions, setSuggestions] = useState<Exercise[] | null>(null)
 
-  async function handleAdd() {
-    if (!selectedExercise && !searchValue) {
-      setError('Please select or enter an exercise name')
-      return
-    }
+  const filteredExercises = exercises.filter((exercise) => matchesExerciseFilters(exercise, filters))
+  const hasFilters = Object.values(filters).some((value) => value !== null)
+
+  // Aliases are searched along with the name, so "BP" finds Bench Press
+  const aliasesByExercise = new Map<number, string[]>()
+  for (const { exerciseId, alias } of aliases) {
+    aliasesByExercise.set(exerciseId, [...(aliasesByExercise.get(exerciseId) ?? []), alias])
+  }
+
+  function handleSearchChange(value: string) {
+    setSearchValue(value)
+    setSuggestions(null)
+  }
 
+  // Changes one filter and keeps the others
+  function updateFilter<K extends keyof ExerciseFilters>(key: K, value: ExerciseFilters[K]) {
+    setFilters((current) => ({ ...current, [key]: value }))
+  }
+
+  async function addExerciseByName(exerciseName: string) {
     setIsLoading(true)
     setError(null)
 
     try {
-      const exerciseName = selectedExercise || searchValue
-
       const input: AddExerciseInput = {
         workoutId,
         exerciseName,
@@ -59,6 +105,7 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
         // Reset form
         setSelectedExercise('')
         setSearchValue('')
+        setSuggestions(null)
         setError(null)
         onOpenChange(false)
       }
@@ -69,11 +116,43 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
     }
   }
 
+  async function handleAdd() {
+    if (!selectedExercise && !searchValue) {
+      setError('Please select or enter an exercise name')
+      return
+    }
+
+    if (selectedExercise) {
+      await addExerciseByName(selectedExercise)
+      return
+    }
+
+    // A typed name may already exist with different casing or as an alias
+    const existingExercise = findExerciseByName(searchValue, exercises, aliases)
+    if (existingExercise) {
+      await addExerciseByName(existingExercise.name)
+      return
+    }
+
+    // Offer close matches once before creating a new exercise
+    if (suggestions === null) {
+      const similarExercises = findSimilarExercises(searchValue, exercises, aliases)
+      if (similarExercises.length > 0) {
+        setSuggestions(similarExercises)
+        return
+      }
+    }
+
+    await addExerciseByName(searchValue)
+  }
+
   const handleOpenChange = (open: boolean) => {
     if (!open) {
       // Reset form when closing
       setSelectedExercise('')
       setSearchValue('')
+      setFilters(EMPTY_EXERCISE_FILTERS)
+      setSuggestions(null)
       setError(null)
     }
     onOpenChange(open)
@@ -90,15 +169,95 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Filters */}
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={filters.muscle ?? 'all'}
+              onValueChange={(value) =>
+                updateFilter('muscle', value === 'all' ? null : (value as ExerciseFilters['muscle']))
+              }
+            >
+              <SelectTrigger size="sm" className="w-full" aria-label="Muscle group">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All muscles</SelectItem>
+                {muscleGroups.map((muscle) => (
+                  <SelectItem key={muscle} value={muscle}>
+                    {muscleGroupLabels[muscle]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.equipment ?? 'all'}
+              onValueChange={(value) =>
+                updateFilter('equipment', value === 'all' ? null : (value as ExerciseFilters['equipment']))
+              }
+            >
+              <SelectTrigger size="sm" className="w-full" aria-label="Equipment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All equipment</SelectItem>
+                {equipmentTypes.map((equipment) => (
+                  <SelectItem key={equipment} value={equipment}>
+                    {equipmentLabels[equipment]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.movementPattern ?? 'all'}
+              onValueChange={(value) =>
+                updateFilter(
+                  'movementPattern',
+                  value === 'all' ? null : (value as ExerciseFilters['movementPattern'])
+                )
+              }
+            >
+              <SelectTrigger size="sm" className="w-full" aria-label="Movement pattern">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All movements</SelectItem>
+                {movementPatterns.map((pattern) => (
+                  <SelectItem key={pattern} value={pattern}>
+                    {movementPatternLabels[pattern]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.isCompound === null ? 'all' : filters.isCompound ? 'compound' : 'isolation'}
+              onValueChange={(value) =>
+                updateFilter('isCompound', value === 'all' ? null : value === 'compound')
+              }
+            >
+              <SelectTrigger size="sm" className="w-full" aria-label="Compound or isolation">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Compound and isolation</SelectItem>
+                <SelectItem value="compound">Compound</SelectItem>
+                <SelectItem value="isolation">Isolation</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <Command className="border rounded-lg">
             <CommandInput
               placeholder="Search exercises or type custom name..."
               value={searchValue}
-              onValueChange={setSearchValue}
+              onValueChange={handleSearchChange}
             />
             <CommandList>
               <CommandEmpty>
-                {searchValue ? (
+                {hasFilters && !searchValue ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    No exercises match these filters
+                  </p>
+                ) : searchValue ? (
                   <div className="py-6 text-center text-sm">
                     <p className="text-muted-foreground">No exercise found</p>
                     <p className="mt-2">Press "Add Exercise" to create "{searchValue}"</p>
@@ -110,13 +269,14 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
                 )}
               </CommandEmpty>
               <CommandGroup heading="Exercises">
-                {exercises.map((exercise) => (
+                {filteredExercises.map((exercise) => (
                   <CommandItem
                     key={exercise.id}
                     value={exercise.name}
+                    keywords={aliasesByExercise.get(exercise.id)}
                     onSelect={(value) => {
                       setSelectedExercise(value === selectedExercise ? '' : value)
-                      setSearchValue(value)
+                      handleSearchChange(value)
                     }}
                   >
                     <Check
@@ -125,13 +285,44 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
                         selectedExercise === exercise.name ? 'opacity-100' : 'opacity-0'
                       )}
                     />
-                    {exercise.name}
+                    <div className="flex flex-col">
+                      <span>{exercise.name}</span>
+                      {formatExerciseMetadata(exercise) && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatExerciseMetadata(exercise)}
+                        </span>
+                      )}
+                    </div>
                   </CommandItem>
                 ))}
               </CommandGroup>
             </CommandList>
           </Command>
 
+          {/* Did You Mean */}
+          {suggestions && (
+            <div className="space-y-2 rounded-md border p-3 text-sm">
+              <p className="font-medium">Did you mean…</p>
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map((exercise) => (
+                  <Button
+                    key={exercise.id}
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => addExerciseByName(exercise.name)}
+                    disabled={isLoading}
+                  >
+                    {exercise.name}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-muted-foreground">
+                Or press &quot;Create Exercise&quot; to add &quot;{searchValue}&quot; as a new exercise
+              </p>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
@@ -153,7 +344,7 @@ export function AddExerciseDialog({ workoutId, exercises, open, onOpenChange }:
             onClick={handleAdd}
             disabled={isLoading || (!selectedExercise && !searchValue)}
           >
-            {isLoading ? 'Adding...' : 'Add Exercise'}
+            {isLoading ? 'Adding...' : suggestions ? 'Create Exercise' : 'Add Exercise'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Link2, Unlink } from 'lucide-react'
+import { ungroupExercises, type UngroupExercisesInput } from '../actions'
+import { exerciseGroupTypeLabels, type ExerciseGroupType } from '@/lib/utils/exercise-groups'
+
+interface ExerciseGroupProps {
+  workoutId: number
+  groupNumber: number
+  groupType: ExerciseGroupType
+  children: React.ReactNode
+}
+
+/**
+ * A superset, giant set or circuit rendered as one block around its exercises
+ */
+export function ExerciseGroup({ workoutId, groupNumber, groupType, children }: ExerciseGroupProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleUngroup() {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: UngroupExercisesInput = {
+        workoutId,
+        groupNumber,
+      }
+
+      await ungroupExercises(input)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border-2 border-dashed p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">
+            <Link2 />
+            {exerciseGroupTypeLabels[groupType]}
+          </Badge>
+          <span className="text-sm text-muted-foreground">
+            Alternate sets between these exercises, then rest
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleUngroup} disabled={isLoading}>
+          <Unlink className="h-4 w-4 mr-2" />
+          Ungroup
+        </Button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {children}
+    </div>
+  )
+}
@@ -1,10 +1,20 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { Fragment, useState, useRef } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Table,
   TableBody,
@@ -13,6 +23,13 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,32 +45,264 @@ import {
   logSet,
   updateSetAction,
   deleteSetAction,
+  updateExerciseNotes,
+  generateWarmups,
   type RemoveExerciseInput,
   type LogSetInput,
   type UpdateSetInput,
   type DeleteSetInput,
+  type UpdateExerciseNotesInput,
+  type GenerateWarmupsInput,
 } from '../actions'
-import { Plus, Trash2, Pencil, Check, X } from 'lucide-react'
-import type { WorkoutExerciseWithDetails } from '@/types/workout'
+import { Plus, Trash2, Pencil, Check, X, Trophy, Calculator, Timer, StickyNote, Disc3, Flame, BetweenHorizontalStart, TrendingUp } from 'lucide-react'
+import { RepMaxTable } from '@/components/rep-max-table'
+import { SetTypeBadge } from '@/components/set-type-badge'
+import { ExerciseSettingsDialog } from './exercise-settings-dialog'
+import { PlateCalculatorDialog } from './plate-calculator-dialog'
+import {
+  estimateSetOneRepMax,
+  getBestOneRepMax,
+  formatEffort,
+  MIN_RPE,
+  MAX_RPE,
+  formatWeight,
+  oneRepMaxFormulaLabels,
+  type OneRepMaxFormula,
+} from '@/lib/utils/strength'
+import { personalRecordLabels } from '@/lib/utils/personal-records'
+import { startRestTimer, getRestTakenSeconds, formatRestTime } from '@/lib/utils/rest-timer'
+import {
+  setTypes,
+  setTypeLabels,
+  getCountedSets,
+  DEFAULT_SET_TYPE,
+  type SetType,
+} from '@/lib/utils/set-types'
+import {
+  formatLoad,
+  getLoadInputLabel,
+  toLoadInputValue,
+  toSignedLoad,
+  withEffectiveLoad,
+  type LoadMode,
+} from '@/lib/utils/load-modes'
+import {
+  formatWeightInUnit,
+  fromKilograms,
+  toKilograms,
+  toWeightInputValue,
+  type WeightUnit,
+} from '@/lib/utils/units'
+import {
+  formatDistance,
+  formatSetDuration,
+  formatSetMetrics,
+  hasLoadAndReps,
+  parseSetDuration,
+  tracksLoadAndReps,
+  type MeasuredSet,
+} from '@/lib/utils/set-metrics'
+import type { PlateSetup } from '@/lib/utils/plates'
+import { suggestProgression, type ProgressionSettings } from '@/lib/utils/progression'
+import { formatDate } from '@/lib/utils/date'
+import type {
+  WorkoutExerciseWithDetails,
+  PersonalRecord,
+  ExerciseHistoryEntry,
+  Set as WorkoutSet,
+} from '@/types/workout'
 
 interface ExerciseItemProps {
   workoutExercise: WorkoutExerciseWithDetails
   workoutId: number
+  personalRecords: PersonalRecord[]
+  oneRepMaxFormula: OneRepMaxFormula
+  excludeWarmupSets: boolean
+  useEffortForOneRepMax: boolean
+  restSeconds: number
+  loadMode: LoadMode
+  bodyweightKg: number | null
+  weightUnit: WeightUnit
+  plateSetup: PlateSetup
+  // Sets from the most recent earlier workout with this exercise
+  previousSession: ExerciseHistoryEntry | null
+  progression: ProgressionSettings | null
+  // Set entry within a superset or circuit alternates between its exercises
+  isUpNext?: boolean
+  restsAfterSet?: boolean
+}
+
+// Empty optional inputs (RPE, RIR) are sent as null
+function parseOptionalNumber(value: FormDataEntryValue | null): number | null {
+  return typeof value === 'string' && value !== '' ? Number(value) : null
 }
 
-export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps) {
-  const [isLoggingSet, setIsLoggingSet] = useState(false)
+// Durations are typed as seconds or minutes:seconds
+function parseDurationInput(value: FormDataEntryValue | null): number {
+  const seconds = typeof value === 'string' ? parseSetDuration(value) : null
+  if (seconds === null) {
+    throw new Error('Enter the time as seconds or minutes:seconds, e.g. 90 or 1:30')
+  }
+  return seconds
+}
+
+export function ExerciseItem({
+  workoutExercise,
+  workoutId,
+  personalRecords,
+  oneRepMaxFormula,
+  excludeWarmupSets,
+  useEffortForOneRepMax,
+  restSeconds,
+  loadMode,
+  bodyweightKg,
+  weightUnit,
+  plateSetup,
+  previousSession,
+  progression,
+  isUpNext = false,
+  restsAfterSet = true,
+}: ExerciseItemProps) {
+  const [isLoggingSet, setIsLoggingSet] = useState(isUpNext)
+  const [insertPosition, setInsertPosition] = useState<number | null>(null)
+  const [wasUpNext, setWasUpNext] = useState(isUpNext)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showRemoveDialog, setShowRemoveDialog] = useState(false)
   const [editingSetId, setEditingSetId] = useState<number | null>(null)
   const [editWeight, setEditWeight] = useState('')
   const [editReps, setEditReps] = useState('')
+  const [editDuration, setEditDuration] = useState('')
+  const [editDistance, setEditDistance] = useState('')
+  const [editSetType, setEditSetType] = useState<SetType>(DEFAULT_SET_TYPE)
+  const [editRpe, setEditRpe] = useState('')
+  const [editRir, setEditRir] = useState('')
+  const [editNotes, setEditNotes] = useState('')
+  const [isEditingNotes, setIsEditingNotes] = useState(false)
   const [deletingSetId, setDeletingSetId] = useState<number | null>(null)
+  const [showRepMaxDialog, setShowRepMaxDialog] = useState(false)
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false)
+  const [plateWeightKg, setPlateWeightKg] = useState<number | null>(null)
   const formRef = useRef<HTMLFormElement>(null)
 
+  // Open the log form when a group moves on to this exercise
+  if (isUpNext !== wasUpNext) {
+    setWasUpNext(isUpNext)
+    setIsLoggingSet(isUpNext)
+  }
+
+  // The exercise decides which values a set records; e1RM, plates, warm-ups and
+  // progression only apply to exercises with both weight and reps
+  const metrics = workoutExercise.exercise.metrics
+  const tracksWeight = metrics.includes('weight')
+  const isLoadAndReps = tracksLoadAndReps(metrics)
+  const showPlates = loadMode === 'external' && tracksWeight
+
+  // Warm-ups are generated once, ahead of the working sets
+  const hasWarmupSets = workoutExercise.sets.some((set) => set.setType === 'warmup')
+
+  // Shown on the log button; the server assigns the actual set number
   const nextSetNumber = workoutExercise.sets.length + 1
 
+  // Set number the log form fills in, appended or inserted
+  const formSetNumber = insertPosition ?? nextSetNumber
+
+  // Program targets are working sets, so warm-ups do not advance them
+  const nextWorkingSetNumber =
+    workoutExercise.sets.filter((set) => set.setType !== 'warmup').length + 1
+
+  // Program target for the next set, used to prefill the log form
+  const nextPrescribedSet = workoutExercise.prescribedSets.find(
+    (prescribedSet) => prescribedSet.setNumber === nextWorkingSetNumber
+  )
+
+  // Same-numbered set from the last session with this exercise
+  function getPreviousSet(setNumber: number) {
+    return previousSession?.sets.find((set) => set.setNumber === setNumber)
+  }
+
+  // The log form is prefilled from the target, otherwise from last session
+  const previousSet = getPreviousSet(formSetNumber)
+  const prefillSet = nextPrescribedSet ?? previousSet
+
+  // e.g. "100 kg × 5", "BW+20kg × 8" or "1:30"
+  function formatSetSummary(set: MeasuredSet) {
+    return formatSetMetrics(set, metrics, loadMode, weightUnit)
+  }
+
+  // Targets and suggestions are always a weight and reps
+  function formatTargetSummary(weightKg: string, reps: number) {
+    return formatSetSummary({ weightKg, reps, durationSeconds: null, distanceMeters: null })
+  }
+
+  // Set, effort, rest and actions, plus one per metric, e1RM and previous
+  const tableColumnCount = 4 + metrics.length + (isLoadAndReps ? 1 : 0) + (previousSession ? 1 : 0)
+
+  // Progression suggestion from last session, unless the workout already has targets
+  const suggestion =
+    progression && previousSession && isLoadAndReps && workoutExercise.prescribedSets.length === 0
+      ? suggestProgression(previousSession.sets, progression, {
+          loadMode,
+          bodyweightKg,
+          formula: oneRepMaxFormula,
+        })
+      : null
+
+  // Personal records held by this workout (session volume) and by each set
+  const hasSessionVolumeRecord = personalRecords.some(
+    (record) => record.recordType === 'best_session_volume' && record.workoutId === workoutId
+  )
+
+  // e1RM includes bodyweight for bodyweight and assisted exercises
+  function estimateOneRepMaxForSet(set: WorkoutSet) {
+    const effectiveSet = withEffectiveLoad(set, loadMode, bodyweightKg)
+    return hasLoadAndReps(effectiveSet)
+      ? estimateSetOneRepMax(effectiveSet, oneRepMaxFormula, useEffortForOneRepMax)
+      : null
+  }
+
+  // Best e1RM in this session, and the all-time best used for the rep-max table
+  const sessionBestOneRepMax = getBestOneRepMax(
+    getCountedSets(workoutExercise.sets, excludeWarmupSets)
+      .filter(hasLoadAndReps)
+      .map((set) => withEffectiveLoad(set, loadMode, bodyweightKg)),
+    oneRepMaxFormula,
+    useEffortForOneRepMax
+  )
+  const bestOneRepMaxRecord = personalRecords.find((record) => record.recordType === 'best_e1rm')
+  const allTimeBestOneRepMax = Math.max(
+    bestOneRepMaxRecord ? parseFloat(bestOneRepMaxRecord.value) : 0,
+    sessionBestOneRepMax
+  )
+
+  function getSetRecordLabels(setId: number) {
+    return personalRecords
+      .filter((record) => record.setId === setId)
+      .map((record) => personalRecordLabels[record.recordType])
+  }
+
+  // Logs a set, closes the form and starts resting (inserted sets were not just performed)
+  async function submitSet(input: LogSetInput) {
+    const result = await logSet(input)
+
+    if (result.success) {
+      // Reset form
+      formRef.current?.reset()
+      setIsLoggingSet(false)
+      setInsertPosition(null)
+
+      // Start resting before the next set (grouped exercises rest after the round)
+      if (restSeconds > 0 && restsAfterSet && input.position === undefined) {
+        startRestTimer({
+          workoutId,
+          workoutExerciseId: workoutExercise.id,
+          exerciseName: workoutExercise.exercise.name,
+          durationSeconds: restSeconds,
+        })
+      }
+    }
+  }
+
   async function handleLogSet(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault()
     setIsLoading(true)
@@ -61,24 +310,57 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
 
     try {
       const formData = new FormData(event.currentTarget)
-      const weightKg = formData.get('weight') as string
-      const reps = parseInt(formData.get('reps') as string, 10)
+      const weight = tracksWeight ? toSignedLoad(formData.get('weight') as string, loadMode) : null
+      const reps = metrics.includes('reps') ? parseInt(formData.get('reps') as string, 10) : null
+      const durationSeconds = metrics.includes('duration')
+        ? parseDurationInput(formData.get('duration'))
+        : null
+      const distanceMeters = parseOptionalNumber(formData.get('distance'))
+      const setType = formData.get('setType') as SetType
+      const rpe = parseOptionalNumber(formData.get('rpe'))
+      const rir = parseOptionalNumber(formData.get('rir'))
+      const notes = formData.get('notes') as string
 
       const input: LogSetInput = {
         workoutExerciseId: workoutExercise.id,
-        setNumber: nextSetNumber,
-        weightKg,
+        position: insertPosition ?? undefined,
+        weight,
+        unit: weightUnit,
         reps,
+        durationSeconds,
+        distanceMeters,
+        setType,
+        rpe,
+        rir,
+        notes,
+        // A set inserted between earlier sets was not just performed after resting
+        restSeconds: insertPosition === null ? getRestTakenSeconds(workoutId) : null,
         workoutId,
       }
 
-      const result = await logSet(input)
+      await submitSet(input)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      if (result.success) {
-        // Reset form
-        formRef.current?.reset()
-        setIsLoggingSet(false)
-      }
+  // One tap logs a target or suggestion as the next set
+  async function handleLogSuggestedSet(weightKg: string | number, reps: number, setType: SetType) {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await submitSet({
+        workoutExerciseId: workoutExercise.id,
+        weight: toWeightInputValue(weightKg, weightUnit),
+        unit: weightUnit,
+        reps,
+        setType,
+        restSeconds: getRestTakenSeconds(workoutId),
+        workoutId,
+      })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -109,16 +391,97 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
     }
   }
 
-  function startEditSet(setId: number, weight: string, reps: number) {
-    setEditingSetId(setId)
-    setEditWeight(weight)
-    setEditReps(reps.toString())
+  async function handleSaveNotes(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+
+      const input: UpdateExerciseNotesInput = {
+        workoutExerciseId: workoutExercise.id,
+        notes: formData.get('notes') as string,
+        workoutId,
+      }
+
+      const result = await updateExerciseNotes(input)
+
+      if (result.success) {
+        setIsEditingNotes(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // The log form is uncontrolled, so read the weight typed so far
+  function getEnteredWeight() {
+    const weight = formRef.current ? new FormData(formRef.current).get('weight') : null
+    return Number(weight ?? 0)
+  }
+
+  function showPlatesForEnteredWeight() {
+    setPlateWeightKg(toKilograms(getEnteredWeight(), weightUnit))
+  }
+
+  async function handleGenerateWarmups() {
+    const workingWeight = getEnteredWeight()
+    if (!(workingWeight > 0)) {
+      setError('Enter your working weight to generate warm-ups')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: GenerateWarmupsInput = {
+        workoutExerciseId: workoutExercise.id,
+        workingWeight,
+        unit: weightUnit,
+        workoutId,
+      }
+
+      // Keeps the form open with the working weight for the next set
+      await generateWarmups(input)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Reuses the log form, inserting the new set before the given set number
+  function startInsertSet(setNumber: number) {
+    setInsertPosition(setNumber)
+    setIsLoggingSet(true)
+  }
+
+  function startEditSet(set: WorkoutSet) {
+    setEditingSetId(set.id)
+    setEditWeight(set.weightKg !== null ? toLoadInputValue(set.weightKg, loadMode, weightUnit) : '')
+    setEditReps(set.reps?.toString() ?? '')
+    setEditDuration(set.durationSeconds !== null ? formatSetDuration(set.durationSeconds) : '')
+    setEditDistance(set.distanceMeters?.toString() ?? '')
+    setEditSetType(set.setType)
+    setEditRpe(set.rpe?.toString() ?? '')
+    setEditRir(set.rir?.toString() ?? '')
+    setEditNotes(set.notes ?? '')
   }
 
   function cancelEditSet() {
     setEditingSetId(null)
     setEditWeight('')
     setEditReps('')
+    setEditDuration('')
+    setEditDistance('')
+    setEditSetType(DEFAULT_SET_TYPE)
+    setEditRpe('')
+    setEditRir('')
+    setEditNotes('')
   }
 
   async function saveEditSet(setId: number) {
@@ -128,17 +491,22 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
     try {
       const input: UpdateSetInput = {
         setId,
-        weightKg: editWeight,
-        reps: parseInt(editReps, 10),
+        weight: tracksWeight ? toSignedLoad(editWeight, loadMode) : null,
+        unit: weightUnit,
+        reps: metrics.includes('reps') ? parseInt(editReps, 10) : null,
+        durationSeconds: metrics.includes('duration') ? parseDurationInput(editDuration) : null,
+        distanceMeters: parseOptionalNumber(editDistance),
+        setType: editSetType,
+        rpe: parseOptionalNumber(editRpe),
+        rir: parseOptionalNumber(editRir),
+        notes: editNotes,
         workoutId,
       }
 
       const result = await updateSetAction(input)
 
       if (result.success) {
-        setEditingSetId(null)
-        setEditWeight('')
-        setEditReps('')
+        cancelEditSet()
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -172,110 +540,436 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
 
   return (
     <>
-      <Card>
+      <Card className={isUpNext ? 'border-primary' : undefined}>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle className="text-xl">{workoutExercise.exercise.name}</CardTitle>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowRemoveDialog(true)}
-              disabled={isLoading}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Remove
-            </Button>
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-xl">
+                  <Link
+                    href={`/dashboard/exercises/${workoutExercise.exerciseId}`}
+                    className="hover:underline"
+                  >
+                    {workoutExercise.exercise.name}
+                  </Link>
+                </CardTitle>
+                {isUpNext && <Badge>Up next</Badge>}
+                {hasSessionVolumeRecord && (
+                  <Badge variant="secondary">
+                    <Trophy />
+                    Volume PR
+                  </Badge>
+                )}
+              </div>
+              {sessionBestOneRepMax > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Best e1RM: {formatWeightInUnit(sessionBestOneRepMax, weightUnit)}
+                </p>
+              )}
+              {loadMode !== 'external' && tracksWeight && bodyweightKg === null && (
+                <p className="text-sm text-muted-foreground">
+                  Add your bodyweight to this workout to include it in volume and e1RM
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditingNotes(true)}
+                disabled={isEditingNotes}
+                title="Notes"
+              >
+                <StickyNote className="h-4 w-4 mr-2" />
+                Notes
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSettingsDialog(true)}
+                title="Exercise settings"
+              >
+                <Timer className="h-4 w-4 mr-2" />
+                {formatRestTime(restSeconds)}
+              </Button>
+              {isLoadAndReps && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRepMaxDialog(true)}
+                  disabled={allTimeBestOneRepMax === 0}
+                >
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Rep Maxes
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRemoveDialog(true)}
+                disabled={isLoading}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Exercise Notes */}
+          {isEditingNotes ? (
+            <form onSubmit={handleSaveNotes} className="space-y-2">
+              <Label htmlFor={`notes-${workoutExercise.id}`}>Notes</Label>
+              <Textarea
+                id={`notes-${workoutExercise.id}`}
+                name="notes"
+                placeholder="e.g., Use the narrow grip, seat height 4"
+                defaultValue={workoutExercise.notes ?? ''}
+                disabled={isLoading}
+                maxLength={2000}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isLoading}>
+                  {isLoading ? 'Saving...' : 'Save Notes'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsEditingNotes(false)}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            workoutExercise.notes && (
+              <p className="text-sm whitespace-pre-wrap">{workoutExercise.notes}</p>
+            )
+          )}
+
+          {/* Prescribed Sets */}
+          {workoutExercise.prescribedSets.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Targets</span>
+              {workoutExercise.prescribedSets.map((prescribedSet) => (
+                <Badge
+                  key={prescribedSet.id}
+                  variant={prescribedSet.setNumber === nextWorkingSetNumber ? 'default' : 'outline'}
+                  className={prescribedSet.setNumber < nextWorkingSetNumber ? 'opacity-50' : undefined}
+                >
+                  {formatTargetSummary(prescribedSet.weightKg, prescribedSet.reps)}
+                  {prescribedSet.isAmrap && '+'}
+                </Badge>
+              ))}
+              {nextPrescribedSet && isLoadAndReps && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    handleLogSuggestedSet(
+                      nextPrescribedSet.weightKg,
+                      nextPrescribedSet.reps,
+                      nextPrescribedSet.isAmrap ? 'amrap' : DEFAULT_SET_TYPE
+                    )
+                  }
+                  disabled={isLoading}
+                >
+                  <Check className="mr-2 h-4 w-4" />
+                  Log Target
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Progression Suggestion */}
+          {suggestion && nextWorkingSetNumber <= suggestion.setCount && (
+            <div className="flex flex-wrap items-center gap-2 rounded-md border border-dashed p-3">
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              <div className="flex-1 text-sm">
+                <span className="font-medium">
+                  Suggested: {formatTargetSummary(String(suggestion.weightKg), suggestion.reps)}
+                </span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  · set {nextWorkingSetNumber} of {suggestion.setCount} · {suggestion.reason}
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleLogSuggestedSet(suggestion.weightKg, suggestion.reps, DEFAULT_SET_TYPE)}
+                disabled={isLoading}
+              >
+                <Check className="mr-2 h-4 w-4" />
+                Log Suggested Set
+              </Button>
+            </div>
+          )}
+
           {/* Sets Table */}
           {workoutExercise.sets.length > 0 && (
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead className="w-20">Set</TableHead>
-                    <TableHead>Weight (kg)</TableHead>
-                    <TableHead>Reps</TableHead>
-                    <TableHead className="w-24">Actions</TableHead>
+                    <TableHead className="w-40">Set</TableHead>
+                    {tracksWeight && (
+                      <TableHead>{loadMode === 'external' ? `Weight (${weightUnit})` : 'Load'}</TableHead>
+                    )}
+                    {metrics.includes('reps') && <TableHead>Reps</TableHead>}
+                    {metrics.includes('duration') && <TableHead>Time</TableHead>}
+                    {metrics.includes('distance') && <TableHead>Distance (m)</TableHead>}
+                    <TableHead>Effort</TableHead>
+                    {isLoadAndReps && <TableHead>e1RM</TableHead>}
+                    <TableHead>Rest</TableHead>
+                    {previousSession && <TableHead>Previous</TableHead>}
+                    <TableHead className={showPlates ? 'w-40' : 'w-32'}>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {workoutExercise.sets.map((set) => (
-                    <TableRow key={set.id}>
-                      <TableCell className="font-medium">{set.setNumber}</TableCell>
-                      <TableCell>
-                        {editingSetId === set.id ? (
-                          <Input
-                            type="number"
-                            step="0.25"
-                            min="0"
-                            value={editWeight}
-                            onChange={(e) => setEditWeight(e.target.value)}
-                            className="w-24"
-                            disabled={isLoading}
-                          />
-                        ) : (
-                          set.weightKg
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        {editingSetId === set.id ? (
-                          <Input
-                            type="number"
-                            min="1"
-                            value={editReps}
-                            onChange={(e) => setEditReps(e.target.value)}
-                            className="w-20"
-                            disabled={isLoading}
-                          />
-                        ) : (
-                          set.reps
-                        )}
-                      </TableCell>
-                      <TableCell>
+                  {workoutExercise.sets.map((set) => {
+                    const recordLabels = getSetRecordLabels(set.id)
+                    const previousRowSet = getPreviousSet(set.setNumber)
+                    const oneRepMax = estimateOneRepMaxForSet(set)
+
+                    return (
+                      <Fragment key={set.id}>
+                        <TableRow className={editingSetId === set.id || set.notes ? 'border-b-0' : undefined}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-2">
+                              {set.setNumber}
+                              {editingSetId === set.id ? (
+                                <Select
+                                  value={editSetType}
+                                  onValueChange={(value) => setEditSetType(value as SetType)}
+                                  disabled={isLoading}
+                                >
+                                  <SelectTrigger size="sm" aria-label="Set type">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {setTypes.map((setType) => (
+                                      <SelectItem key={setType} value={setType}>
+                                        {setTypeLabels[setType]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <SetTypeBadge setType={set.setType} />
+                              )}
+                              {recordLabels.length > 0 && (
+                                <Badge variant="secondary" title={recordLabels.join(', ')}>
+                                  <Trophy />
+                                  PR
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          {tracksWeight && (
+                            <TableCell>
+                              {editingSetId === set.id ? (
+                                <Input
+                                  type="number"
+                                  step="any"
+                                  min="0"
+                                  value={editWeight}
+                                  onChange={(e) => setEditWeight(e.target.value)}
+                                  className="w-24"
+                                  disabled={isLoading}
+                                />
+                              ) : set.weightKg !== null ? (
+                                formatLoad(set.weightKg, loadMode, weightUnit)
+                              ) : (
+                                '—'
+                              )}
+                            </TableCell>
+                          )}
+                          {metrics.includes('reps') && (
+                            <TableCell>
+                              {editingSetId === set.id ? (
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={editReps}
+                                  onChange={(e) => setEditReps(e.target.value)}
+                                  className="w-20"
+                                  disabled={isLoading}
+                                />
+                              ) : (
+                                set.reps ?? '—'
+                              )}
+                            </TableCell>
+                          )}
+                          {metrics.includes('duration') && (
+                            <TableCell>
+                              {editingSetId === set.id ? (
+                                <Input
+                                  placeholder="m:ss"
+                                  aria-label="Time"
+                                  value={editDuration}
+                                  onChange={(e) => setEditDuration(e.target.value)}
+                                  className="w-20"
+                                  disabled={isLoading}
+                                />
+                              ) : set.durationSeconds !== null ? (
+                                formatSetDuration(set.durationSeconds)
+                              ) : (
+                                '—'
+                              )}
+                            </TableCell>
+                          )}
+                          {metrics.includes('distance') && (
+                            <TableCell>
+                              {editingSetId === set.id ? (
+                                <Input
+                                  type="number"
+                                  step="any"
+                                  min="0"
+                                  value={editDistance}
+                                  onChange={(e) => setEditDistance(e.target.value)}
+                                  className="w-24"
+                                  disabled={isLoading}
+                                />
+                              ) : set.distanceMeters !== null ? (
+                                formatDistance(set.distanceMeters)
+                              ) : (
+                                '—'
+                              )}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            {editingSetId === set.id ? (
+                              <div className="flex gap-1">
+                                <Input
+                                  type="number"
+                                  step="0.5"
+                                  min={MIN_RPE}
+                                  max={MAX_RPE}
+                                  placeholder="RPE"
+                                  aria-label="RPE"
+                                  value={editRpe}
+                                  onChange={(e) => setEditRpe(e.target.value)}
+                                  className="w-20"
+                                  disabled={isLoading}
+                                />
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="10"
+                                  placeholder="RIR"
+                                  aria-label="RIR"
+                                  value={editRir}
+                                  onChange={(e) => setEditRir(e.target.value)}
+                                  className="w-20"
+                                  disabled={isLoading}
+                                />
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">{formatEffort(set) ?? '—'}</span>
+                            )}
+                          </TableCell>
+                          {isLoadAndReps && (
+                            <TableCell className="text-muted-foreground">
+                              {oneRepMax !== null ? formatWeight(fromKilograms(oneRepMax, weightUnit)) : '—'}
+                            </TableCell>
+                          )}
+                          <TableCell className="text-muted-foreground">
+                            {set.restSeconds !== null ? formatRestTime(set.restSeconds) : '—'}
+                          </TableCell>
+                          {previousSession && (
+                            <TableCell className="text-muted-foreground">
+                              {previousRowSet ? formatSetSummary(previousRowSet) : '—'}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            {editingSetId === set.id ? (
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => saveEditSet(set.id)}
+                                  disabled={isLoading}
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={cancelEditSet}
+                                  disabled={isLoading}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex gap-1">
+                                {showPlates && set.weightKg !== null && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setPlateWeightKg(Number(set.weightKg))}
+                                    title="Plate calculator"
+                                  >
+                                    <Disc3 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => startInsertSet(set.setNumber)}
+                                  disabled={isLoading}
+                                  title="Insert a set before this one"
+                                >
+                                  <BetweenHorizontalStart className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => startEditSet(set)}
+                                  disabled={isLoading}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setDeletingSetId(set.id)}
+                                  disabled={isLoading}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
                         {editingSetId === set.id ? (
-                          <div className="flex gap-1">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => saveEditSet(set.id)}
-                              disabled={isLoading}
-                            >
-                              <Check className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={cancelEditSet}
-                              disabled={isLoading}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          <TableRow>
+                            <TableCell colSpan={tableColumnCount} className="pt-0">
+                              <Input
+                                placeholder="Notes (optional)"
+                                aria-label="Set notes"
+                                value={editNotes}
+                                onChange={(e) => setEditNotes(e.target.value)}
+                                maxLength={2000}
+                                disabled={isLoading}
+                              />
+                            </TableCell>
+                          </TableRow>
                         ) : (
-                          <div className="flex gap-1">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => startEditSet(set.id, set.weightKg, set.reps)}
-                              disabled={isLoading}
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => setDeletingSetId(set.id)}
-                              disabled={isLoading}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          set.notes && (
+                            <TableRow>
+                              <TableCell colSpan={tableColumnCount} className="pt-0 text-sm text-muted-foreground whitespace-pre-wrap">
+                                {set.notes}
+                              </TableCell>
+                            </TableRow>
+                          )
                         )}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                      </Fragment>
+                    )
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -290,46 +984,204 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
 
           {/* Log Set Form */}
           {isLoggingSet ? (
-            <form ref={formRef} onSubmit={handleLogSet} className="space-y-4 border rounded-lg p-4">
+            <form
+              key={formSetNumber}
+              ref={formRef}
+              onSubmit={handleLogSet}
+              className="space-y-4 border rounded-lg p-4"
+            >
+              {previousSet && previousSession && (
+                <p className="text-sm text-muted-foreground">
+                  Last time (set {previousSet.setNumber}, {formatDate(previousSession.workout.startedAt)}):{' '}
+                  {formatSetSummary(previousSet)}
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                {tracksWeight && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`weight-${workoutExercise.id}`}>
+                      {getLoadInputLabel(loadMode, weightUnit)}
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id={`weight-${workoutExercise.id}`}
+                        name="weight"
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="0"
+                        defaultValue={
+                          prefillSet && prefillSet.weightKg !== null
+                            ? toLoadInputValue(prefillSet.weightKg, loadMode, weightUnit)
+                            : undefined
+                        }
+                        required
+                        disabled={isLoading}
+                      />
+                      {showPlates && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={showPlatesForEnteredWeight}
+                          disabled={isLoading}
+                          title="Plate calculator"
+                        >
+                          <Disc3 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {metrics.includes('reps') && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`reps-${workoutExercise.id}`}>
+                      Reps
+                    </Label>
+                    <Input
+                      id={`reps-${workoutExercise.id}`}
+                      name="reps"
+                      type="number"
+                      min="1"
+                      placeholder="0"
+                      defaultValue={prefillSet?.reps ?? undefined}
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
+                {metrics.includes('duration') && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`duration-${workoutExercise.id}`}>
+                      Time
+                    </Label>
+                    <Input
+                      id={`duration-${workoutExercise.id}`}
+                      name="duration"
+                      placeholder="e.g., 1:30"
+                      defaultValue={
+                        previousSet && previousSet.durationSeconds !== null
+                          ? formatSetDuration(previousSet.durationSeconds)
+                          : undefined
+                      }
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
+                {metrics.includes('distance') && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`distance-${workoutExercise.id}`}>
+                      Distance (m)
+                    </Label>
+                    <Input
+                      id={`distance-${workoutExercise.id}`}
+                      name="distance"
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="0"
+                      defaultValue={previousSet?.distanceMeters ?? undefined}
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor={`weight-${workoutExercise.id}`}>
-                    Weight (kg)
+                  <Label htmlFor={`rpe-${workoutExercise.id}`}>
+                    RPE <span className="text-muted-foreground">(optional)</span>
                   </Label>
                   <Input
-                    id={`weight-${workoutExercise.id}`}
-                    name="weight"
+                    id={`rpe-${workoutExercise.id}`}
+                    name="rpe"
                     type="number"
-                    step="0.25"
-                    min="0"
-                    placeholder="0"
-                    required
+                    step="0.5"
+                    min={MIN_RPE}
+                    max={MAX_RPE}
+                    placeholder="e.g., 8"
                     disabled={isLoading}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor={`reps-${workoutExercise.id}`}>
-                    Reps
+                  <Label htmlFor={`rir-${workoutExercise.id}`}>
+                    RIR <span className="text-muted-foreground">(optional)</span>
                   </Label>
                   <Input
-                    id={`reps-${workoutExercise.id}`}
-                    name="reps"
+                    id={`rir-${workoutExercise.id}`}
+                    name="rir"
                     type="number"
-                    min="1"
-                    placeholder="0"
-                    required
+                    min="0"
+                    max="10"
+                    placeholder="e.g., 2"
                     disabled={isLoading}
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor={`setType-${workoutExercise.id}`}>
+                  Set Type
+                </Label>
+                <Select
+                  name="setType"
+                  defaultValue={
+                    nextPrescribedSet
+                      ? nextPrescribedSet.isAmrap ? 'amrap' : DEFAULT_SET_TYPE
+                      : previousSet?.setType ?? DEFAULT_SET_TYPE
+                  }
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id={`setType-${workoutExercise.id}`} className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {setTypes.map((setType) => (
+                      <SelectItem key={setType} value={setType}>
+                        {setTypeLabels[setType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`setNotes-${workoutExercise.id}`}>
+                  Notes <span className="text-muted-foreground">(optional)</span>
+                </Label>
+                <Input
+                  id={`setNotes-${workoutExercise.id}`}
+                  name="notes"
+                  placeholder="e.g., Slight hip shift on the last rep"
+                  maxLength={2000}
+                  disabled={isLoading}
+                />
+              </div>
               <div className="flex gap-2">
                 <Button type="submit" disabled={isLoading} className="flex-1">
-                  {isLoading ? 'Logging...' : `Log Set ${nextSetNumber}`}
+                  {isLoading
+                    ? 'Logging...'
+                    : insertPosition !== null
+                    ? `Insert Set ${insertPosition}`
+                    : `Log Set ${nextSetNumber}`}
                 </Button>
+                {loadMode === 'external' && isLoadAndReps && insertPosition === null && !hasWarmupSets && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleGenerateWarmups}
+                    disabled={isLoading}
+                  >
+                    <Flame className="h-4 w-4 mr-2" />
+                    Generate Warm-ups
+                  </Button>
+                )}
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setIsLoggingSet(false)}
+                  onClick={() => {
+                    setIsLoggingSet(false)
+                    setInsertPosition(null)
+                  }}
                   disabled={isLoading}
                 >
                   Cancel
@@ -357,6 +1209,44 @@ export function ExerciseItem({ workoutExercise, workoutId }: ExerciseItemProps)
         </CardContent>
       </Card>
 
+      {/* Plate Calculator Dialog */}
+      <PlateCalculatorDialog
+        weightKg={plateWeightKg}
+        plateSetup={plateSetup}
+        weightUnit={weightUnit}
+        onOpenChange={(open) => !open && setPlateWeightKg(null)}
+      />
+
+      {/* Rep-Max Table Dialog */}
+      <Dialog open={showRepMaxDialog} onOpenChange={setShowRepMaxDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{workoutExercise.exercise.name} Rep Maxes</DialogTitle>
+            <DialogDescription>
+              Estimated from your best e1RM of {formatWeightInUnit(allTimeBestOneRepMax, weightUnit)}
+              using the {oneRepMaxFormulaLabels[oneRepMaxFormula]} formula
+            </DialogDescription>
+          </DialogHeader>
+          <RepMaxTable
+            oneRepMax={allTimeBestOneRepMax}
+            formula={oneRepMaxFormula}
+            unit={weightUnit}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Exercise Settings Dialog */}
+      <ExerciseSettingsDialog
+        exercise={workoutExercise.exercise}
+        workoutId={workoutId}
+        restSeconds={restSeconds}
+        loadMode={loadMode}
+        progression={progression}
+        weightUnit={weightUnit}
+        open={showSettingsDialog}
+        onOpenChange={setShowSettingsDialog}
+      />
+
       {/* Remove Exercise Confirmation Dialog */}
       <AlertDialog open={showRemoveDialog} onOpenChange={setShowRemoveDialog}>
         <AlertDialogContent>
@@ -0,0 +1,292 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updateExerciseSettings, type UpdateExerciseSettingsInput } from '../actions'
+import { MAX_REST_SECONDS } from '@/lib/utils/rest-timer'
+import { loadModes, loadModeLabels, type LoadMode } from '@/lib/utils/load-modes'
+import {
+  progressionModels,
+  progressionModelLabels,
+  getDefaultProgressionSettings,
+  type ProgressionModel,
+  type ProgressionSettings,
+} from '@/lib/utils/progression'
+import { MIN_RPE, MAX_RPE } from '@/lib/utils/strength'
+import { toWeightInputValue, type WeightUnit } from '@/lib/utils/units'
+import type { Exercise } from '@/types/workout'
+
+interface ExerciseSettingsDialogProps {
+  exercise: Exercise
+  workoutId: number
+  restSeconds: number
+  loadMode: LoadMode
+  progression: ProgressionSettings | null
+  weightUnit: WeightUnit
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ExerciseSettingsDialog({
+  exercise,
+  workoutId,
+  restSeconds,
+  loadMode,
+  progression,
+  weightUnit,
+  open,
+  onOpenChange,
+}: ExerciseSettingsDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progressionModel, setProgressionModel] = useState<ProgressionModel | 'none'>(
+    progression?.model ?? 'none'
+  )
+
+  // Saved values, or the defaults when progression is first turned on
+  const progressionValues =
+    progression ??
+    getDefaultProgressionSettings(progressionModel === 'none' ? 'linear' : progressionModel, weightUnit)
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+
+      const input: UpdateExerciseSettingsInput = {
+        exerciseId: exercise.id,
+        restSeconds: parseInt(formData.get('restSeconds') as string, 10),
+        loadMode: formData.get('loadMode') as LoadMode,
+        progression:
+          progressionModel === 'none'
+            ? null
+            : {
+                model: progressionModel,
+                increment: Number(formData.get('progressionIncrement')),
+                targetReps: Number(formData.get('progressionTargetReps') ?? progressionValues.targetReps),
+                minReps: Number(formData.get('progressionMinReps') ?? progressionValues.minReps),
+                maxReps: Number(formData.get('progressionMaxReps') ?? progressionValues.maxReps),
+                targetRpe: Number(formData.get('progressionTargetRpe') ?? progressionValues.targetRpe),
+              },
+        unit: weightUnit,
+        workoutId,
+      }
+
+      const result = await updateExerciseSettings(input)
+
+      if (result.success) {
+        onOpenChange(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Reset state when closing
+      setError(null)
+      setProgressionModel(progression?.model ?? 'none')
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{exercise.name} Settings</DialogTitle>
+          <DialogDescription>
+            These settings apply whenever you train this exercise
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`restSeconds-${exercise.id}`}>Rest (seconds)</Label>
+            <Input
+              id={`restSeconds-${exercise.id}`}
+              name="restSeconds"
+              type="number"
+              step="15"
+              min="0"
+              max={MAX_REST_SECONDS}
+              defaultValue={restSeconds}
+              required
+              disabled={isLoading}
+            />
+            <p className="text-sm text-muted-foreground">
+              The rest timer starts with this duration after you log a set
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`loadMode-${exercise.id}`}>Load</Label>
+            <Select name="loadMode" defaultValue={loadMode} disabled={isLoading}>
+              <SelectTrigger id={`loadMode-${exercise.id}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {loadModes.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {loadModeLabels[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Bodyweight and assisted exercises count your bodyweight toward volume and e1RM
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`progressionModel-${exercise.id}`}>Progression</Label>
+            <Select
+              value={progressionModel}
+              onValueChange={(value) => setProgressionModel(value as ProgressionModel | 'none')}
+              disabled={isLoading}
+            >
+              <SelectTrigger id={`progressionModel-${exercise.id}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No suggestions</SelectItem>
+                {progressionModels.map((model) => (
+                  <SelectItem key={model} value={model}>
+                    {progressionModelLabels[model]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Suggests the next weight and reps from your last session with this exercise
+            </p>
+          </div>
+
+          {progressionModel !== 'none' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`progressionIncrement-${exercise.id}`}>
+                  Increment ({weightUnit})
+                </Label>
+                <Input
+                  id={`progressionIncrement-${exercise.id}`}
+                  name="progressionIncrement"
+                  type="number"
+                  step="any"
+                  min="0"
+                  defaultValue={toWeightInputValue(progressionValues.incrementKg, weightUnit)}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              {progressionModel === 'linear' && (
+                <div className="space-y-2">
+                  <Label htmlFor={`progressionTargetReps-${exercise.id}`}>Target Reps</Label>
+                  <Input
+                    id={`progressionTargetReps-${exercise.id}`}
+                    name="progressionTargetReps"
+                    type="number"
+                    min="1"
+                    max="100"
+                    defaultValue={progressionValues.targetReps}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+              {progressionModel === 'double' && (
+                <div className="space-y-2">
+                  <Label htmlFor={`progressionMinReps-${exercise.id}`}>Rep Range</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`progressionMinReps-${exercise.id}`}
+                      name="progressionMinReps"
+                      type="number"
+                      min="1"
+                      max="100"
+                      aria-label="Lowest reps"
+                      defaultValue={progressionValues.minReps}
+                      required
+                      disabled={isLoading}
+                    />
+                    <span className="text-sm text-muted-foreground">–</span>
+                    <Input
+                      name="progressionMaxReps"
+                      type="number"
+                      min="1"
+                      max="100"
+                      aria-label="Highest reps"
+                      defaultValue={progressionValues.maxReps}
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+              )}
+              {progressionModel === 'rpe' && (
+                <div className="space-y-2">
+                  <Label htmlFor={`progressionTargetRpe-${exercise.id}`}>Target RPE</Label>
+                  <Input
+                    id={`progressionTargetRpe-${exercise.id}`}
+                    name="progressionTargetRpe"
+                    type="number"
+                    step="0.5"
+                    min={MIN_RPE}
+                    max={MAX_RPE}
+                    defaultValue={progressionValues.targetRpe}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
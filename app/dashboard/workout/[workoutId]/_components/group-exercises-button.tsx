@@ -0,0 +1,41 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Link2 } from 'lucide-react'
+import { GroupExercisesDialog } from './group-exercises-dialog'
+import { MIN_EXERCISE_GROUP_SIZE } from '@/lib/utils/exercise-groups'
+import type { WorkoutExerciseWithDetails } from '@/types/workout'
+
+interface GroupExercisesButtonProps {
+  workoutId: number
+  workoutExercises: WorkoutExerciseWithDetails[]
+}
+
+export function GroupExercisesButton({ workoutId, workoutExercises }: GroupExercisesButtonProps) {
+  const [showDialog, setShowDialog] = useState(false)
+
+  // Only exercises that are not already in a group can be linked
+  const ungrouped = workoutExercises.filter(
+    (workoutExercise) => workoutExercise.groupNumber === null
+  )
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setShowDialog(true)}
+        disabled={ungrouped.length < MIN_EXERCISE_GROUP_SIZE}
+      >
+        <Link2 className="h-4 w-4 mr-2" />
+        Superset
+      </Button>
+      <GroupExercisesDialog
+        workoutId={workoutId}
+        workoutExercises={ungrouped}
+        open={showDialog}
+        onOpenChange={setShowDialog}
+      />
+    </>
+  )
+}
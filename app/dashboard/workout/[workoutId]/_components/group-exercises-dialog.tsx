@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { groupExercises, type GroupExercisesInput } from '../actions'
+import {
+  exerciseGroupTypes,
+  exerciseGroupTypeLabels,
+  DEFAULT_EXERCISE_GROUP_TYPE,
+  MIN_EXERCISE_GROUP_SIZE,
+  type ExerciseGroupType,
+} from '@/lib/utils/exercise-groups'
+import type { WorkoutExerciseWithDetails } from '@/types/workout'
+
+interface GroupExercisesDialogProps {
+  workoutId: number
+  workoutExercises: WorkoutExerciseWithDetails[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function GroupExercisesDialog({
+  workoutId,
+  workoutExercises,
+  open,
+  onOpenChange,
+}: GroupExercisesDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [groupType, setGroupType] = useState<ExerciseGroupType>(DEFAULT_EXERCISE_GROUP_TYPE)
+
+  function toggleExercise(workoutExerciseId: number, checked: boolean) {
+    setSelectedIds((current) =>
+      checked
+        ? [...current, workoutExerciseId]
+        : current.filter((id) => id !== workoutExerciseId)
+    )
+  }
+
+  async function handleGroup() {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: GroupExercisesInput = {
+        workoutId,
+        workoutExerciseIds: selectedIds,
+        groupType,
+      }
+
+      const result = await groupExercises(input)
+
+      if (result.success) {
+        handleOpenChange(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Reset form when closing
+      setSelectedIds([])
+      setGroupType(DEFAULT_EXERCISE_GROUP_TYPE)
+      setError(null)
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group Exercises</DialogTitle>
+          <DialogDescription>
+            Link exercises into a superset, giant set or circuit. Sets alternate between them
+            and rest starts after each round.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="groupType">Type</Label>
+            <Select
+              value={groupType}
+              onValueChange={(value) => setGroupType(value as ExerciseGroupType)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="groupType" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exerciseGroupTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {exerciseGroupTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Exercises</Label>
+            {workoutExercises.map((workoutExercise) => (
+              <div key={workoutExercise.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`group-${workoutExercise.id}`}
+                  checked={selectedIds.includes(workoutExercise.id)}
+                  onCheckedChange={(checked) => toggleExercise(workoutExercise.id, checked === true)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor={`group-${workoutExercise.id}`} className="font-normal">
+                  {workoutExercise.exercise.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGroup}
+            disabled={isLoading || selectedIds.length < MIN_EXERCISE_GROUP_SIZE}
+          >
+            {isLoading ? 'Grouping...' : `Create ${exerciseGroupTypeLabels[groupType]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { calculatePlateLoad, formatPlateWeight, type PlateSetup } from '@/lib/utils/plates'
+import { formatWeightInUnit, fromKilograms, toKilograms, type WeightUnit } from '@/lib/utils/units'
+
+interface PlateCalculatorDialogProps {
+  weightKg: number | null
+  plateSetup: PlateSetup
+  weightUnit: WeightUnit
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Shows which plates to load on each side of the bar for a set weight
+ * Open while weightKg is set
+ */
+export function PlateCalculatorDialog({
+  weightKg,
+  plateSetup,
+  weightUnit,
+  onOpenChange,
+}: PlateCalculatorDialogProps) {
+  const { unit } = plateSetup
+  const load = weightKg !== null
+    ? calculatePlateLoad(fromKilograms(weightKg, unit), plateSetup)
+    : null
+
+  // Plates may be marked in a different unit than the one the user logs in
+  function formatInBothUnits(weight: number) {
+    const formatted = formatPlateWeight(weight, unit)
+    return unit === weightUnit
+      ? formatted
+      : `${formatted} (${formatWeightInUnit(toKilograms(weight, unit), weightUnit)})`
+  }
+
+  return (
+    <Dialog open={weightKg !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Plate Calculator</DialogTitle>
+          <DialogDescription>
+            {weightKg !== null && (
+              <>
+                Loading {formatWeightInUnit(weightKg, weightUnit)} on a{' '}
+                {formatPlateWeight(plateSetup.barWeight, unit)} bar
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {load && (
+          <div className="space-y-4">
+            {!load.isExact && (
+              <div className="rounded-md bg-muted p-3 text-sm">
+                This weight can&apos;t be loaded exactly with your plates. The nearest
+                loadable weight is <span className="font-medium">{formatInBothUnits(load.totalWeight)}</span>.
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Each side</p>
+              {load.perSide.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {load.perSide.map((plate) => (
+                    <Badge key={plate.weight} variant="secondary">
+                      {plate.count} × {formatPlateWeight(plate.weight, unit)}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No plates, just the bar</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Total on the bar</span>
+              <span className="font-medium">{formatInBothUnits(load.totalWeight)}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Link href="/dashboard/settings">
+            <Button variant="outline">Edit Bar & Plates</Button>
+          </Link>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { unstable_rethrow } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { repeatWorkout, type RepeatWorkoutInput } from '../actions'
+import type { Workout } from '@/types/workout'
+
+interface RepeatWorkoutDialogProps {
+  workout: Workout
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function RepeatWorkoutDialog({ workout, open, onOpenChange }: RepeatWorkoutDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copySetsAsTargets, setCopySetsAsTargets] = useState(true)
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const input: RepeatWorkoutInput = {
+        workoutId: workout.id,
+        copySetsAsTargets,
+      }
+
+      // Redirects to the new workout on success
+      await repeatWorkout(input)
+    } catch (err) {
+      // Let the redirect to the new workout through
+      unstable_rethrow(err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Reset state when closing
+      setError(null)
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Repeat Workout</DialogTitle>
+          <DialogDescription>
+            Start a new &quot;{workout.name}&quot; workout with the same exercises, in the same order
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="copySetsAsTargets"
+              checked={copySetsAsTargets}
+              onCheckedChange={(checked) => setCopySetsAsTargets(checked === true)}
+              disabled={isLoading}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="copySetsAsTargets">Copy previous sets as targets</Label>
+              <p className="text-sm text-muted-foreground">
+                The working sets from this workout become the targets to beat. Leave unchecked to start with empty sets.
+              </p>
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Starting...' : 'Start Workout'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Timer, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  getRestTimerSnapshot,
+  parseRestTimer,
+  subscribeToRestTimer,
+  writeRestTimer,
+  formatRestTime,
+} from '@/lib/utils/rest-timer'
+
+interface RestTimerProps {
+  workoutId: number
+}
+
+/**
+ * Plays a short beep and vibrates (where supported) when rest is over
+ */
+function notifyRestComplete() {
+  navigator.vibrate?.([200, 100, 200])
+
+  try {
+    const audioContext = new AudioContext()
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    oscillator.frequency.value = 880
+    gain.gain.setValueAtTime(0.2, audioContext.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.6)
+    oscillator.connect(gain)
+    gain.connect(audioContext.destination)
+    oscillator.start()
+    oscillator.stop(audioContext.currentTime + 0.6)
+    oscillator.onended = () => audioContext.close()
+  } catch {
+    // Audio may be unavailable (e.g. blocked before any user interaction)
+  }
+}
+
+export function RestTimer({ workoutId }: RestTimerProps) {
+  const snapshot = useSyncExternalStore(subscribeToRestTimer, getRestTimerSnapshot, () => null)
+  const timer = useMemo(() => parseRestTimer(snapshot), [snapshot])
+  const [now, setNow] = useState(0)
+
+  const isVisible = timer !== null && timer.workoutId === workoutId && !timer.dismissed
+
+  // Tick while the timer is on screen
+  useEffect(() => {
+    if (!isVisible) {
+      return
+    }
+    const tick = () => setNow(Date.now())
+    const interval = window.setInterval(tick, 250)
+    tick()
+    return () => window.clearInterval(interval)
+  }, [isVisible])
+
+  const remainingSeconds = timer && now > 0
+    ? timer.durationSeconds - Math.floor((now - timer.startedAt) / 1000)
+    : null
+
+  // Notify once when the countdown reaches zero
+  useEffect(() => {
+    if (timer && isVisible && !timer.notified && remainingSeconds !== null && remainingSeconds <= 0) {
+      notifyRestComplete()
+      writeRestTimer({ ...timer, notified: true })
+    }
+  }, [timer, isVisible, remainingSeconds])
+
+  if (!timer || !isVisible || remainingSeconds === null) {
+    return null
+  }
+
+  const isOver = remainingSeconds <= 0
+
+  // Add time to the current rest
+  function extend(seconds: number) {
+    if (timer) {
+      writeRestTimer({
+        ...timer,
+        durationSeconds: timer.durationSeconds + seconds,
+        notified: false,
+      })
+    }
+  }
+
+  // Hide the timer but keep its start time so the rest taken is still recorded
+  function dismiss() {
+    if (timer) {
+      writeRestTimer({ ...timer, dismissed: true })
+    }
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 px-4">
+      <Card className="mx-auto max-w-md py-3 shadow-lg">
+        <CardContent className="flex items-center justify-between gap-4 px-4">
+          <div className="flex items-center gap-3">
+            <Timer className={cn('h-5 w-5', isOver ? 'text-green-600' : 'text-muted-foreground')} />
+            <div>
+              <p className="text-sm text-muted-foreground">
+                {isOver ? 'Rest complete' : 'Resting'} · {timer.exerciseName}
+              </p>
+              <p className={cn('text-2xl font-semibold tabular-nums', isOver && 'text-green-600')}>
+                {isOver && '+'}
+                {formatRestTime(remainingSeconds)}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => extend(30)}>
+              +30s
+            </Button>
+            <Button variant="ghost" size="icon" onClick={dismiss} aria-label="Dismiss rest timer">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
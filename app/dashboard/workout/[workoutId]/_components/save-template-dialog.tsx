@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { saveAsTemplate, type SaveAsTemplateInput } from '../actions'
+import type { Workout } from '@/types/workout'
+
+interface SaveTemplateDialogProps {
+  workout: Workout
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SaveTemplateDialog({ workout, open, onOpenChange }: SaveTemplateDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+
+      const input: SaveAsTemplateInput = {
+        workoutId: workout.id,
+        name: formData.get('templateName') as string,
+      }
+
+      const result = await saveAsTemplate(input)
+
+      if (result.success) {
+        setSaved(true)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Reset state when closing
+      setError(null)
+      setSaved(false)
+    }
+    onOpenChange(open)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Save the exercises in this workout, in order, so you can start from them next time
+          </DialogDescription>
+        </DialogHeader>
+
+        {saved ? (
+          <>
+            <div className="rounded-md bg-green-100 p-3 text-sm text-green-700 dark:bg-green-900 dark:text-green-300">
+              Template saved. Choose it when creating a new workout.
+            </div>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Template Name</Label>
+              <Input
+                id="templateName"
+                name="templateName"
+                type="text"
+                defaultValue={workout.name}
+                required
+                disabled={isLoading}
+                maxLength={255}
+              />
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
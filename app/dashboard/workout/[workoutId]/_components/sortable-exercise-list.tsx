@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { GripVertical } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { reorderExercises, type ReorderExercisesInput } from '../actions'
+
+/**
+ * An exercise, or a whole superset/circuit, that moves as one unit
+ */
+export interface SortableExerciseBlock {
+  key: string
+  label: string
+  workoutExerciseIds: number[]
+  content: React.ReactNode
+}
+
+interface SortableExerciseListProps {
+  workoutId: number
+  blocks: SortableExerciseBlock[]
+}
+
+function moveKey(keys: string[], key: string, toIndex: number) {
+  const remaining = keys.filter((current) => current !== key)
+  return [...remaining.slice(0, toIndex), key, ...remaining.slice(toIndex)]
+}
+
+/**
+ * Exercise list reordered by dragging a block's handle, or by focusing the
+ * handle and pressing the up and down arrow keys
+ */
+export function SortableExerciseList({ workoutId, blocks }: SortableExerciseListProps) {
+  const serverOrder = blocks.map((block) => block.key)
+  const [order, setOrder] = useState(serverOrder)
+  const [syncedOrder, setSyncedOrder] = useState(serverOrder.join(','))
+  const [draggingKey, setDraggingKey] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+
+  // The server order wins once it changes (after saving, adding or removing exercises)
+  if (serverOrder.join(',') !== syncedOrder) {
+    setSyncedOrder(serverOrder.join(','))
+    setOrder(serverOrder)
+  }
+
+  const blocksByKey = new Map(blocks.map((block) => [block.key, block]))
+  const orderedBlocks = order.flatMap((key) => blocksByKey.get(key) ?? [])
+
+  async function saveOrder(newOrder: string[]) {
+    if (newOrder.join(',') === serverOrder.join(',')) {
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const input: ReorderExercisesInput = {
+        workoutId,
+        workoutExerciseIds: newOrder.flatMap(
+          (key) => blocksByKey.get(key)?.workoutExerciseIds ?? []
+        ),
+      }
+
+      await reorderExercises(input)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setOrder(serverOrder)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  function handleDragStart(event: React.DragEvent<HTMLButtonElement>, key: string) {
+    // Wait for the previous move to save before starting another
+    if (isSaving) {
+      event.preventDefault()
+      return
+    }
+
+    setDraggingKey(key)
+    event.dataTransfer.effectAllowed = 'move'
+
+    // Drag the whole block, not just its handle
+    const block = event.currentTarget.closest('[data-sortable-block]')
+    if (block) {
+      event.dataTransfer.setDragImage(block, 0, 0)
+    }
+  }
+
+  function handleDragOver(event: React.DragEvent<HTMLDivElement>, key: string) {
+    if (draggingKey === null) {
+      return
+    }
+
+    event.preventDefault()
+    if (draggingKey !== key) {
+      setOrder((current) => moveKey(current, draggingKey, current.indexOf(key)))
+    }
+  }
+
+  async function handleDragEnd() {
+    if (draggingKey === null) {
+      return
+    }
+
+    setDraggingKey(null)
+    await saveOrder(order)
+  }
+
+  async function handleKeyDown(event: React.KeyboardEvent<HTMLButtonElement>, block: SortableExerciseBlock) {
+    const index = order.indexOf(block.key)
+    const toIndex =
+      event.key === 'ArrowUp' ? index - 1 : event.key === 'ArrowDown' ? index + 1 : null
+
+    if (toIndex === null) {
+      return
+    }
+
+    event.preventDefault()
+    if (toIndex < 0 || toIndex >= order.length || isSaving) {
+      return
+    }
+
+    const newOrder = moveKey(order, block.key, toIndex)
+    setOrder(newOrder)
+    setAnnouncement(`${block.label} moved to position ${toIndex + 1} of ${order.length}`)
+    await saveOrder(newOrder)
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {orderedBlocks.map((block) => (
+        <div
+          key={block.key}
+          data-sortable-block
+          onDragOver={(event) => handleDragOver(event, block.key)}
+          onDrop={(event) => event.preventDefault()}
+          className={cn('flex items-start gap-2', draggingKey === block.key && 'opacity-50')}
+        >
+          {orderedBlocks.length > 1 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              draggable={!isSaving}
+              onDragStart={(event) => handleDragStart(event, block.key)}
+              onDragEnd={handleDragEnd}
+              onKeyDown={(event) => handleKeyDown(event, block)}
+              className="mt-5 cursor-grab active:cursor-grabbing"
+              aria-label={`Reorder ${block.label}. Use the up and down arrow keys to move it.`}
+              title="Drag or use the arrow keys to reorder"
+            >
+              <GripVertical className="h-4 w-4" />
+            </Button>
+          )}
+          <div className="min-w-0 flex-1">{block.content}</div>
+        </div>
+      ))}
+
+      {/* Screen reader announcement for keyboard moves */}
+      <p aria-live="polite" className="sr-only">
+        {announcement}
+      </p>
+    </div>
+  )
+}
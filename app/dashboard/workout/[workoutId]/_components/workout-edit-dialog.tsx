@@ -12,18 +12,21 @@ import {
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { updateWorkout, type UpdateWorkoutInput } from '../actions'
 import { format } from 'date-fns'
+import { toWeightInputValue, type WeightUnit } from '@/lib/utils/units'
 import type { Workout } from '@/types/workout'
 
 interface WorkoutEditDialogProps {
   workout: Workout
+  weightUnit: WeightUnit
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-export function WorkoutEditDialog({ workout, open, onOpenChange }: WorkoutEditDialogProps) {
+export function WorkoutEditDialog({ workout, weightUnit, open, onOpenChange }: WorkoutEditDialogProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isCompleted, setIsCompleted] = useState(!!workout.completedAt)
@@ -51,6 +54,8 @@ export function WorkoutEditDialog({ workout, open, onOpenChange }: WorkoutEditDi
       const startTime = formData.get('startTime') as string
       const endDate = formData.get('endDate') as string
       const endTime = formData.get('endTime') as string
+      const bodyweight = formData.get('bodyweight') as string
+      const notes = formData.get('notes') as string
 
       // Combine date and time into ISO datetime strings
       const startedAt = `${startDate}T${startTime}:00`
@@ -63,6 +68,9 @@ export function WorkoutEditDialog({ workout, open, onOpenChange }: WorkoutEditDi
         name,
         startedAt,
         completedAt,
+        bodyweight: bodyweight ? parseFloat(bodyweight) : null,
+        unit: weightUnit,
+        notes,
       }
 
       const result = await updateWorkout(input)
@@ -188,6 +196,44 @@ export function WorkoutEditDialog({ workout, open, onOpenChange }: WorkoutEditDi
             </div>
           )}
 
+          {/* Bodyweight */}
+          <div className="space-y-2">
+            <Label htmlFor="bodyweight">
+              Bodyweight ({weightUnit}) <span className="text-muted-foreground">(optional)</span>
+            </Label>
+            <Input
+              id="bodyweight"
+              name="bodyweight"
+              type="number"
+              step="any"
+              min="0"
+              max="1000"
+              placeholder="e.g., 80"
+              defaultValue={
+                workout.bodyweightKg !== null
+                  ? toWeightInputValue(workout.bodyweightKg, weightUnit)
+                  : undefined
+              }
+              disabled={isLoading}
+            />
+            <p className="text-sm text-muted-foreground">
+              Counted toward volume and e1RM of bodyweight and assisted exercises
+            </p>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              name="notes"
+              placeholder="e.g., Felt strong, left shoulder a bit tight"
+              defaultValue={workout.notes ?? ''}
+              disabled={isLoading}
+              maxLength={2000}
+            />
+          </div>
+
           {/* Error Message */}
           {error && (
             <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import {
   AlertDialog,
@@ -19,6 +20,8 @@ import {
 } from '@/components/ui/alert-dialog'
 import { updateWorkout, deleteWorkout, type UpdateWorkoutInput, type DeleteWorkoutInput } from '../actions'
 import { format } from 'date-fns'
+import { toWeightInputValue, type WeightUnit } from '@/lib/utils/units'
+import type { Workout } from '@/types/workout'
 
 /**
  * Workout edit form component
@@ -27,21 +30,12 @@ import { format } from 'date-fns'
  * - Using date-fns for date formatting
  */
 
-type Workout = {
-  id: number
-  userId: string
-  name: string
-  startedAt: Date
-  completedAt: Date | null
-  createdAt: Date
-  updatedAt: Date
-}
-
 interface WorkoutEditFormProps {
   workout: Workout
+  weightUnit: WeightUnit
 }
 
-export function WorkoutEditForm({ workout }: WorkoutEditFormProps) {
+export function WorkoutEditForm({ workout, weightUnit }: WorkoutEditFormProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -71,6 +65,8 @@ export function WorkoutEditForm({ workout }: WorkoutEditFormProps) {
       const startTime = formData.get('startTime') as string
       const endDate = formData.get('endDate') as string
       const endTime = formData.get('endTime') as string
+      const bodyweight = formData.get('bodyweight') as string
+      const notes = formData.get('notes') as string
 
       // Combine date and time into ISO datetime strings
       // Keep in local timezone format (YYYY-MM-DDTHH:mm:ss) without timezone indicator
@@ -84,6 +80,9 @@ export function WorkoutEditForm({ workout }: WorkoutEditFormProps) {
         name,
         startedAt,
         completedAt,
+        bodyweight: bodyweight ? parseFloat(bodyweight) : null,
+        unit: weightUnit,
+        notes,
       }
 
       // Call Server Action
@@ -235,6 +234,44 @@ export function WorkoutEditForm({ workout }: WorkoutEditFormProps) {
             </div>
           )}
 
+          {/* Bodyweight */}
+          <div className="space-y-2">
+            <Label htmlFor="bodyweight">
+              Bodyweight ({weightUnit}) <span className="text-muted-foreground">(optional)</span>
+            </Label>
+            <Input
+              id="bodyweight"
+              name="bodyweight"
+              type="number"
+              step="any"
+              min="0"
+              max="1000"
+              placeholder="e.g., 80"
+              defaultValue={
+                workout.bodyweightKg !== null
+                  ? toWeightInputValue(workout.bodyweightKg, weightUnit)
+                  : undefined
+              }
+              disabled={isLoading}
+            />
+            <p className="text-sm text-muted-foreground">
+              Counted toward volume and e1RM of bodyweight and assisted exercises
+            </p>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              name="notes"
+              placeholder="e.g., Felt strong, left shoulder a bit tight"
+              defaultValue={workout.notes ?? ''}
+              disabled={isLoading}
+              maxLength={2000}
+            />
+          </div>
+
           {/* Error Message */}
           {error && (
             <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
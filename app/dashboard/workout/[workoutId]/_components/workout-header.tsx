@@ -16,18 +16,24 @@ import {
 } from '@/components/ui/alert-dialog'
 import { deleteWorkout, type DeleteWorkoutInput } from '../actions'
 import { formatDate, formatTime, calculateDuration, formatDuration } from '@/lib/utils/date'
-import { Pencil, Trash2, ArrowLeft } from 'lucide-react'
+import { toWeightInputValue, type WeightUnit } from '@/lib/utils/units'
+import { Pencil, Trash2, ArrowLeft, BookmarkPlus, Repeat } from 'lucide-react'
 import { WorkoutEditDialog } from './workout-edit-dialog'
+import { SaveTemplateDialog } from './save-template-dialog'
+import { RepeatWorkoutDialog } from './repeat-workout-dialog'
 import type { Workout } from '@/types/workout'
 
 interface WorkoutHeaderProps {
   workout: Workout
+  weightUnit: WeightUnit
 }
 
-export function WorkoutHeader({ workout }: WorkoutHeaderProps) {
+export function WorkoutHeader({ workout, weightUnit }: WorkoutHeaderProps) {
   const router = useRouter()
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false)
+  const [showRepeatDialog, setShowRepeatDialog] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -85,6 +91,9 @@ export function WorkoutHeader({ workout }: WorkoutHeaderProps) {
                 {duration !== null && (
                   <div>Duration: {formatDuration(duration)}</div>
                 )}
+                {workout.bodyweightKg !== null && (
+                  <div>Bodyweight: {toWeightInputValue(workout.bodyweightKg, weightUnit)} {weightUnit}</div>
+                )}
                 {!workout.completedAt && (
                   <div className="text-blue-600 dark:text-blue-400 font-medium">
                     In Progress
@@ -93,6 +102,22 @@ export function WorkoutHeader({ workout }: WorkoutHeaderProps) {
               </div>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setShowRepeatDialog(true)}
+                title="Repeat this workout"
+              >
+                <Repeat className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setShowTemplateDialog(true)}
+                title="Save as template"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
               <Button
                 variant="outline"
                 size="icon"
@@ -109,6 +134,9 @@ export function WorkoutHeader({ workout }: WorkoutHeaderProps) {
               </Button>
             </div>
           </div>
+          {workout.notes && (
+            <p className="pt-2 text-sm whitespace-pre-wrap">{workout.notes}</p>
+          )}
         </CardHeader>
         {error && (
           <CardContent>
@@ -122,10 +150,25 @@ export function WorkoutHeader({ workout }: WorkoutHeaderProps) {
       {/* Edit Dialog */}
       <WorkoutEditDialog
         workout={workout}
+        weightUnit={weightUnit}
         open={showEditDialog}
         onOpenChange={setShowEditDialog}
       />
 
+      {/* Save as Template Dialog */}
+      <SaveTemplateDialog
+        workout={workout}
+        open={showTemplateDialog}
+        onOpenChange={setShowTemplateDialog}
+      />
+
+      {/* Repeat Workout Dialog */}
+      <RepeatWorkoutDialog
+        workout={workout}
+        open={showRepeatDialog}
+        onOpenChange={setShowRepeatDialog}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -2,11 +2,41 @@
 
 import { auth } from '@clerk/nextjs/server'
 import { z } from 'zod'
-import { updateWorkoutForUser, getWorkoutByIdForUser, deleteWorkoutForUser } from '@/data/workouts'
-import { getOrCreateExercise } from '@/data/exercises'
-import { addExerciseToWorkout as addExerciseToWorkoutData, removeExerciseFromWorkout as removeExerciseFromWorkoutData } from '@/data/workout-exercises'
-import { createSet as createSetData, updateSet as updateSetData, deleteSet as deleteSetData } from '@/data/sets'
+import { updateWorkoutForUser, getWorkoutByIdForUser, deleteWorkoutForUser, createWorkoutForUser } from '@/data/workouts'
+import { getOrCreateExerciseForUser, getExerciseByIdForUser } from '@/data/exercises'
+import { addExerciseToWorkout as addExerciseToWorkoutData, removeExerciseFromWorkout as removeExerciseFromWorkoutData, getExerciseIdsForWorkout, updateWorkoutExerciseNotes, groupWorkoutExercises, ungroupWorkoutExercises, reorderWorkoutExercises, copyWorkoutExercises } from '@/data/workout-exercises'
+import {
+  createSet as createSetData,
+  createWarmupSets,
+  updateSet as updateSetData,
+  deleteSet as deleteSetData,
+} from '@/data/sets'
+import { recomputePersonalRecords, recomputePersonalRecordsForWorkoutExercise } from '@/data/personal-records'
+import { createTemplateFromWorkout } from '@/data/templates'
+import { updateExerciseSettingsForUser, getSetRulesForWorkoutExercise, getSetRulesForSet, type SetRules } from '@/data/exercise-settings'
+import { getUserSettings } from '@/data/user-settings'
+import { MAX_REST_SECONDS } from '@/lib/utils/rest-timer'
+import { setTypes } from '@/lib/utils/set-types'
+import { MIN_RPE, MAX_RPE } from '@/lib/utils/strength'
+import { loadModes, isValidLoadForMode, type LoadMode } from '@/lib/utils/load-modes'
+import { weightUnits, toKilograms, fromKilograms, toStoredWeight } from '@/lib/utils/units'
+import { getPlateSetup } from '@/lib/utils/plates'
+import { generateWarmupSets, getWarmupScheme } from '@/lib/utils/warmups'
+import { exerciseGroupTypes, MIN_EXERCISE_GROUP_SIZE } from '@/lib/utils/exercise-groups'
+import { progressionModels } from '@/lib/utils/progression'
+import { setMetricLabels, tracksLoadAndReps, MAX_SET_DURATION_SECONDS, type MeasuredSet } from '@/lib/utils/set-metrics'
 import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+
+/**
+ * Free-text notes; blank notes are stored as null
+ */
+const notesSchema = z
+  .string()
+  .max(2000, 'Notes are too long')
+  .transform((notes) => notes.trim() || null)
+  .optional()
+  .nullable()
 
 /**
  * Validation schema for updating a workout
@@ -16,12 +46,16 @@ import { revalidatePath } from 'next/cache'
  *
  * Note: We accept ISO 8601 datetime strings and will parse them as-is.
  * The client should send local time in ISO format (YYYY-MM-DDTHH:mm:ss).
+ * Bodyweight is entered in the user's unit and stored in kg.
  */
 const updateWorkoutSchema = z.object({
   workoutId: z.number().int().positive(),
   name: z.string().min(1, 'Workout name is required').max(255, 'Name is too long'),
   startedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, 'Invalid date format'),
   completedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, 'Invalid date format').optional().nullable(),
+  bodyweight: z.number().positive().max(1000).optional().nullable(),
+  unit: z.enum(weightUnits),
+  notes: notesSchema,
 })
 
 export type UpdateWorkoutInput = z.infer<typeof updateWorkoutSchema>
@@ -57,12 +91,28 @@ export async function updateWorkout(input: UpdateWorkoutInput) {
     name: validatedInput.name,
     startedAt,
     completedAt,
+    bodyweightKg: validatedInput.bodyweight
+      ? toKilograms(validatedInput.bodyweight, validatedInput.unit)
+      : null,
+    notes: validatedInput.notes ?? null,
   })
 
   if (!workout) {
     throw new Error('Failed to update workout')
   }
 
+  // Bodyweight counts toward the e1RM and volume of bodyweight exercises, and
+  // the date decides which session a record was achieved in
+  if (
+    workout.bodyweightKg !== existingWorkout.bodyweightKg ||
+    workout.startedAt.getTime() !== existingWorkout.startedAt.getTime()
+  ) {
+    const exerciseIds = await getExerciseIdsForWorkout(userId, workout.id)
+    for (const exerciseId of exerciseIds) {
+      await recomputePersonalRecords(userId, exerciseId)
+    }
+  }
+
   // Revalidate the dashboard page to reflect changes
   revalidatePath('/dashboard')
   revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
@@ -102,6 +152,9 @@ export async function deleteWorkout(input: DeleteWorkoutInput) {
     throw new Error('Workout not found')
   }
 
+  // Remember which exercises were trained so their records can be rebuilt
+  const exerciseIds = await getExerciseIdsForWorkout(userId, validatedInput.workoutId)
+
   // Delete workout using helper function from /data directory
   // Following /docs/data-mutations.md guidelines:
   // - Using helper function from /data directory
@@ -112,6 +165,11 @@ export async function deleteWorkout(input: DeleteWorkoutInput) {
     throw new Error('Failed to delete workout')
   }
 
+  // Personal records may have come from this workout
+  for (const exerciseId of exerciseIds) {
+    await recomputePersonalRecords(userId, exerciseId)
+  }
+
   // Revalidate the dashboard page to reflect changes
   revalidatePath('/dashboard')
 
@@ -120,6 +178,89 @@ export async function deleteWorkout(input: DeleteWorkoutInput) {
   return { success: true, workoutId: deletedWorkout.id }
 }
 
+/**
+ * Validation schema for repeating a workout
+ * Following /docs/data-mutations.md guidelines:
+ * - Using Zod for input validation
+ * - Strongly-typed parameters (NOT FormData)
+ */
+const repeatWorkoutSchema = z.object({
+  workoutId: z.number().int().positive(),
+  copySetsAsTargets: z.boolean(),
+})
+
+export type RepeatWorkoutInput = z.infer<typeof repeatWorkoutSchema>
+
+export async function repeatWorkout(input: RepeatWorkoutInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = repeatWorkoutSchema.parse(input)
+
+  // Verify that the workout belongs to the user
+  const existingWorkout = await getWorkoutByIdForUser(userId, validatedInput.workoutId)
+  if (!existingWorkout) {
+    throw new Error('Workout not found')
+  }
+
+  // Start a new workout with the same name and exercises, in the same order
+  const newWorkout = await createWorkoutForUser(userId, {
+    name: existingWorkout.name,
+    startedAt: new Date(),
+  })
+
+  await copyWorkoutExercises(userId, existingWorkout.id, newWorkout.id, {
+    copySetsAsTargets: validatedInput.copySetsAsTargets,
+  })
+
+  // Revalidate the dashboard page to show the new workout
+  revalidatePath('/dashboard')
+
+  redirect(`/dashboard/workout/${newWorkout.id}`)
+}
+
+/**
+ * Validation schema for saving a workout as a template
+ * Following /docs/data-mutations.md guidelines:
+ * - Using Zod for input validation
+ * - Strongly-typed parameters (NOT FormData)
+ */
+const saveAsTemplateSchema = z.object({
+  workoutId: z.number().int().positive(),
+  name: z.string().min(1, 'Template name is required').max(255, 'Name is too long'),
+})
+
+export type SaveAsTemplateInput = z.infer<typeof saveAsTemplateSchema>
+
+export async function saveAsTemplate(input: SaveAsTemplateInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = saveAsTemplateSchema.parse(input)
+
+  // Copy the workout's exercises into a new template (helper validates ownership)
+  const template = await createTemplateFromWorkout(
+    userId,
+    validatedInput.workoutId,
+    validatedInput.name
+  )
+
+  // Templates are offered when creating a new workout
+  revalidatePath('/dashboard/workout/new')
+
+  return { success: true, templateId: template.id }
+}
+
 /**
  * Validation schema for adding an exercise to a workout
  * Following /docs/data-mutations.md guidelines:
@@ -150,8 +291,8 @@ export async function addExercise(input: AddExerciseInput) {
     throw new Error('Workout not found')
   }
 
-  // Get or create the exercise
-  const exercise = await getOrCreateExercise(validatedInput.exerciseName)
+  // Get or create the exercise (new names become the user's custom exercises)
+  const exercise = await getOrCreateExerciseForUser(userId, validatedInput.exerciseName)
 
   // Add exercise to workout
   const workoutExercise = await addExerciseToWorkoutData(
@@ -188,7 +329,12 @@ export async function removeExercise(input: RemoveExerciseInput) {
   const validatedInput = removeExerciseSchema.parse(input)
 
   // Remove exercise from workout (helper validates ownership)
-  await removeExerciseFromWorkoutData(userId, validatedInput.workoutExerciseId)
+  const removed = await removeExerciseFromWorkoutData(userId, validatedInput.workoutExerciseId)
+
+  // Its sets are gone, so rebuild the personal records for that exercise
+  if (removed) {
+    await recomputePersonalRecords(userId, removed.exerciseId)
+  }
 
   // Revalidate the workout page
   revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
@@ -196,14 +342,225 @@ export async function removeExercise(input: RemoveExerciseInput) {
   return { success: true }
 }
 
+/**
+ * Validation schema for reordering the exercises of a workout
+ * workoutExerciseIds lists every exercise of the workout in its new order
+ */
+const reorderExercisesSchema = z.object({
+  workoutId: z.number().int().positive(),
+  workoutExerciseIds: z.array(z.number().int().positive()).min(1),
+})
+
+export type ReorderExercisesInput = z.infer<typeof reorderExercisesSchema>
+
+export async function reorderExercises(input: ReorderExercisesInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = reorderExercisesSchema.parse(input)
+
+  // Rewrite the whole order at once (helper validates ownership)
+  await reorderWorkoutExercises(
+    userId,
+    validatedInput.workoutId,
+    validatedInput.workoutExerciseIds
+  )
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return { success: true }
+}
+
+/**
+ * Validation schema for linking exercises into a superset, giant set or circuit
+ */
+const groupExercisesSchema = z.object({
+  workoutId: z.number().int().positive(),
+  workoutExerciseIds: z
+    .array(z.number().int().positive())
+    .min(MIN_EXERCISE_GROUP_SIZE, `Select at least ${MIN_EXERCISE_GROUP_SIZE} exercises`),
+  groupType: z.enum(exerciseGroupTypes),
+})
+
+export type GroupExercisesInput = z.infer<typeof groupExercisesSchema>
+
+export async function groupExercises(input: GroupExercisesInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = groupExercisesSchema.parse(input)
+
+  // Group exercises (helper validates ownership)
+  const groupNumber = await groupWorkoutExercises(
+    userId,
+    validatedInput.workoutId,
+    validatedInput.workoutExerciseIds,
+    validatedInput.groupType
+  )
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return { success: true, groupNumber }
+}
+
+/**
+ * Validation schema for splitting a group back into individual exercises
+ */
+const ungroupExercisesSchema = z.object({
+  workoutId: z.number().int().positive(),
+  groupNumber: z.number().int().positive(),
+})
+
+export type UngroupExercisesInput = z.infer<typeof ungroupExercisesSchema>
+
+export async function ungroupExercises(input: UngroupExercisesInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = ungroupExercisesSchema.parse(input)
+
+  // Ungroup exercises (helper validates ownership)
+  await ungroupWorkoutExercises(userId, validatedInput.workoutId, validatedInput.groupNumber)
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return { success: true }
+}
+
+/**
+ * Validation schema for updating the notes of an exercise in a workout
+ */
+const updateExerciseNotesSchema = z.object({
+  workoutExerciseId: z.number().int().positive(),
+  notes: notesSchema,
+  workoutId: z.number().int().positive(), // For revalidation
+})
+
+export type UpdateExerciseNotesInput = z.infer<typeof updateExerciseNotesSchema>
+
+export async function updateExerciseNotes(input: UpdateExerciseNotesInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updateExerciseNotesSchema.parse(input)
+
+  // Update notes (helper validates ownership)
+  const workoutExercise = await updateWorkoutExerciseNotes(
+    userId,
+    validatedInput.workoutExerciseId,
+    validatedInput.notes ?? null
+  )
+
+  if (!workoutExercise) {
+    throw new Error('Failed to update notes')
+  }
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return { success: true, workoutExerciseId: workoutExercise.id }
+}
+
+/**
+ * Signed load of a set in the user's unit; only assisted exercises accept negative values
+ */
+const signedWeightSchema = z
+  .string()
+  .regex(/^-?\d+(\.\d{1,2})?$/, 'Weight must be a valid number with up to 2 decimal places')
+
+/**
+ * Throws when a load does not match the load mode of its exercise
+ */
+function assertValidLoad(weight: string, loadMode: LoadMode) {
+  if (!isValidLoadForMode(parseFloat(weight), loadMode)) {
+    throw new Error(
+      loadMode === 'assisted'
+        ? 'Assistance must be entered as a positive number'
+        : 'Weight cannot be negative'
+    )
+  }
+}
+
+/**
+ * Values of a set; each exercise requires the metrics it tracks and ignores the rest
+ * weight is entered in unit and stored in kg
+ */
+const setMetricsSchema = z.object({
+  weight: signedWeightSchema.optional().nullable(),
+  unit: z.enum(weightUnits),
+  reps: z.number().int().positive().optional().nullable(),
+  durationSeconds: z.number().int().positive().max(MAX_SET_DURATION_SECONDS).optional().nullable(),
+  distanceMeters: z.number().positive().max(1_000_000).optional().nullable(),
+})
+
+/**
+ * Checks a set's values against the metrics of its exercise and converts them for storage
+ * Throws when a tracked metric is missing; values of untracked metrics are dropped
+ */
+function toMeasuredSet(input: z.infer<typeof setMetricsSchema>, rules: SetRules): MeasuredSet {
+  const values = {
+    weight: input.weight,
+    reps: input.reps,
+    duration: input.durationSeconds,
+    distance: input.distanceMeters,
+  }
+  const missingMetric = rules.metrics.find(
+    (metric) => values[metric] === null || values[metric] === undefined
+  )
+  if (missingMetric) {
+    throw new Error(`${setMetricLabels[missingMetric]} is required for this exercise`)
+  }
+
+  const weight = rules.metrics.includes('weight') ? input.weight ?? null : null
+  if (weight !== null) {
+    // Only assisted exercises take negative load
+    assertValidLoad(weight, rules.loadMode)
+  }
+
+  return {
+    weightKg: weight !== null ? toStoredWeight(weight, input.unit) : null,
+    reps: rules.metrics.includes('reps') ? input.reps ?? null : null,
+    durationSeconds: rules.metrics.includes('duration') ? input.durationSeconds ?? null : null,
+    distanceMeters: rules.metrics.includes('distance') ? input.distanceMeters ?? null : null,
+  }
+}
+
 /**
  * Validation schema for logging a set
+ * The set number is assigned by the server; position inserts the set before the
+ * set currently at that number instead of appending it
  */
-const logSetSchema = z.object({
+const logSetSchema = setMetricsSchema.extend({
   workoutExerciseId: z.number().int().positive(),
-  setNumber: z.number().int().positive(),
-  weightKg: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Weight must be a valid number with up to 2 decimal places'),
-  reps: z.number().int().positive(),
+  position: z.number().int().positive().optional(),
+  setType: z.enum(setTypes).optional(),
+  rpe: z.number().min(MIN_RPE).max(MAX_RPE).multipleOf(0.5, 'RPE must be in half steps').optional().nullable(),
+  rir: z.number().int().min(0).max(10).optional().nullable(),
+  restSeconds: z.number().int().min(0).max(MAX_REST_SECONDS).optional().nullable(), // Rest taken before this set
+  notes: notesSchema,
   workoutId: z.number().int().positive(), // For revalidation
 })
 
@@ -220,28 +577,110 @@ export async function logSet(input: LogSetInput) {
   // Validate input
   const validatedInput = logSetSchema.parse(input)
 
+  // The exercise decides which values a set needs (helper validates ownership)
+  const measurements = toMeasuredSet(
+    validatedInput,
+    await getSetRulesForWorkoutExercise(userId, validatedInput.workoutExerciseId)
+  )
+
   // Create set (helper validates ownership)
   const set = await createSetData(
     userId,
     validatedInput.workoutExerciseId,
-    validatedInput.setNumber,
-    validatedInput.weightKg,
-    validatedInput.reps
+    measurements,
+    {
+      position: validatedInput.position,
+      setType: validatedInput.setType,
+      rpe: validatedInput.rpe,
+      rir: validatedInput.rir,
+      restSeconds: validatedInput.restSeconds,
+      notes: validatedInput.notes,
+    }
   )
 
+  // Update personal records with the new set
+  await recomputePersonalRecordsForWorkoutExercise(userId, set.workoutExerciseId)
+
   // Revalidate the workout page
   revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
 
   return { success: true, setId: set.id }
 }
 
+/**
+ * Validation schema for generating warm-up sets
+ * workingWeight is entered in unit
+ */
+const generateWarmupsSchema = z.object({
+  workoutExerciseId: z.number().int().positive(),
+  workingWeight: z.number().positive().max(1000),
+  unit: z.enum(weightUnits),
+  workoutId: z.number().int().positive(), // For revalidation
+})
+
+export type GenerateWarmupsInput = z.infer<typeof generateWarmupsSchema>
+
+export async function generateWarmups(input: GenerateWarmupsInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = generateWarmupsSchema.parse(input)
+
+  // Percentages only make sense for loads on a bar (helper validates ownership)
+  const { loadMode, metrics } = await getSetRulesForWorkoutExercise(userId, validatedInput.workoutExerciseId)
+  if (loadMode !== 'external' || !tracksLoadAndReps(metrics)) {
+    throw new Error('Warm-ups can only be generated for weighted exercises')
+  }
+
+  // Ramp up in the plates' unit so every warm-up can be loaded
+  const settings = await getUserSettings(userId)
+  const plateSetup = getPlateSetup(settings.plateSetup, settings.weightUnit)
+  const warmups = generateWarmupSets(
+    fromKilograms(toKilograms(validatedInput.workingWeight, validatedInput.unit), plateSetup.unit),
+    getWarmupScheme(settings.warmupScheme),
+    plateSetup
+  )
+
+  if (warmups.length === 0) {
+    throw new Error('The working weight is too light to warm up for')
+  }
+
+  // Warm-ups come first, so insert them ahead of the sets already logged
+  // (helper validates ownership and rejects a second ramp)
+  await createWarmupSets(
+    userId,
+    validatedInput.workoutExerciseId,
+    warmups.map((warmup) => ({
+      weightKg: toStoredWeight(String(warmup.weight), plateSetup.unit),
+      reps: warmup.reps,
+      durationSeconds: null,
+      distanceMeters: null,
+    }))
+  )
+
+  // Warm-ups count towards records when they are not excluded
+  await recomputePersonalRecordsForWorkoutExercise(userId, validatedInput.workoutExerciseId)
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return { success: true, count: warmups.length }
+}
+
 /**
  * Validation schema for updating a set
  */
-const updateSetActionSchema = z.object({
+const updateSetActionSchema = setMetricsSchema.extend({
   setId: z.number().int().positive(),
-  weightKg: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Weight must be a valid number with up to 2 decimal places'),
-  reps: z.number().int().positive(),
+  setType: z.enum(setTypes).optional(),
+  rpe: z.number().min(MIN_RPE).max(MAX_RPE).multipleOf(0.5, 'RPE must be in half steps').optional().nullable(),
+  rir: z.number().int().min(0).max(10).optional().nullable(),
+  notes: notesSchema,
   workoutId: z.number().int().positive(), // For revalidation
 })
 
@@ -258,18 +697,32 @@ export async function updateSetAction(input: UpdateSetInput) {
   // Validate input
   const validatedInput = updateSetActionSchema.parse(input)
 
+  // The exercise decides which values a set needs (helper validates ownership)
+  const measurements = toMeasuredSet(
+    validatedInput,
+    await getSetRulesForSet(userId, validatedInput.setId)
+  )
+
   // Update set (helper validates ownership)
   const set = await updateSetData(
     userId,
     validatedInput.setId,
-    validatedInput.weightKg,
-    validatedInput.reps
+    measurements,
+    {
+      setType: validatedInput.setType,
+      rpe: validatedInput.rpe,
+      rir: validatedInput.rir,
+      notes: validatedInput.notes,
+    }
   )
 
   if (!set) {
     throw new Error('Failed to update set')
   }
 
+  // Update personal records with the edited set
+  await recomputePersonalRecordsForWorkoutExercise(userId, set.workoutExerciseId)
+
   // Revalidate the workout page
   revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
 
@@ -298,10 +751,98 @@ export async function deleteSetAction(input: DeleteSetInput) {
   const validatedInput = deleteSetActionSchema.parse(input)
 
   // Delete set (helper validates ownership)
-  await deleteSetData(userId, validatedInput.setId)
+  const deletedSet = await deleteSetData(userId, validatedInput.setId)
+
+  // The deleted set may have held a personal record
+  if (deletedSet) {
+    await recomputePersonalRecordsForWorkoutExercise(userId, deletedSet.workoutExerciseId)
+  }
 
   // Revalidate the workout page
   revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
 
   return { success: true }
 }
+
+/**
+ * Validation schema for the progression suggestions of an exercise
+ * The increment is entered in the user's unit and stored in kg
+ */
+const progressionSchema = z
+  .object({
+    model: z.enum(progressionModels),
+    increment: z.number().positive().max(100),
+    targetReps: z.number().int().min(1).max(100),
+    minReps: z.number().int().min(1).max(100),
+    maxReps: z.number().int().min(1).max(100),
+    targetRpe: z.number().min(MIN_RPE).max(MAX_RPE).multipleOf(0.5, 'RPE must be in half steps'),
+  })
+  .refine((progression) => progression.minReps <= progression.maxReps, {
+    message: 'The lowest reps in the range cannot be above the highest',
+    path: ['maxReps'],
+  })
+
+/**
+ * Validation schema for updating the user's settings for an exercise
+ */
+const updateExerciseSettingsSchema = z.object({
+  exerciseId: z.number().int().positive(),
+  restSeconds: z.number().int().min(0).max(MAX_REST_SECONDS),
+  loadMode: z.enum(loadModes),
+  // null turns progression suggestions off
+  progression: progressionSchema.nullable(),
+  unit: z.enum(weightUnits),
+  workoutId: z.number().int().positive(), // For revalidation
+})
+
+export type UpdateExerciseSettingsInput = z.infer<typeof updateExerciseSettingsSchema>
+
+export async function updateExerciseSettings(input: UpdateExerciseSettingsInput) {
+  // Get authenticated user
+  const { userId } = await auth()
+
+  if (!userId) {
+    throw new Error('Unauthorized')
+  }
+
+  // Validate input
+  const validatedInput = updateExerciseSettingsSchema.parse(input)
+
+  // Settings can only be saved for exercises the user can see (not other users' custom ones)
+  const exercise = await getExerciseByIdForUser(userId, validatedInput.exerciseId)
+
+  if (!exercise) {
+    throw new Error('Exercise not found')
+  }
+
+  const { progression } = validatedInput
+
+  // Save the user's rest time, load mode and progression model for this exercise
+  const settings = await updateExerciseSettingsForUser(userId, validatedInput.exerciseId, {
+    restSeconds: validatedInput.restSeconds,
+    loadMode: validatedInput.loadMode,
+    progression: progression
+      ? {
+          model: progression.model,
+          incrementKg: toKilograms(progression.increment, validatedInput.unit),
+          targetReps: progression.targetReps,
+          minReps: progression.minReps,
+          maxReps: progression.maxReps,
+          targetRpe: progression.targetRpe,
+        }
+      : null,
+  })
+
+  // The load mode changes how e1RM and volume are calculated
+  await recomputePersonalRecords(userId, validatedInput.exerciseId)
+
+  // Revalidate the workout page
+  revalidatePath(`/dashboard/workout/${validatedInput.workoutId}`)
+
+  return {
+    success: true,
+    restSeconds: settings.restSeconds,
+    loadMode: settings.loadMode,
+    progression: settings.progression,
+  }
+}
@@ -1,11 +1,23 @@
 import { auth } from '@clerk/nextjs/server'
 import { notFound, redirect } from 'next/navigation'
 import { getWorkoutByIdForUser } from '@/data/workouts'
-import { getAllExercises } from '@/data/exercises'
-import { getWorkoutExercisesWithSets } from '@/data/workout-exercises'
+import { getExercisesForUser, getExerciseAliasesForUser } from '@/data/exercises'
+import { getWorkoutExercisesWithSets, getPreviousSessionsForExercises } from '@/data/workout-exercises'
+import { getPersonalRecordsForExercises } from '@/data/personal-records'
+import { getUserSettings } from '@/data/user-settings'
+import { getExerciseSettingsForUser } from '@/data/exercise-settings'
+import { DEFAULT_REST_SECONDS } from '@/lib/utils/rest-timer'
+import { DEFAULT_LOAD_MODE } from '@/lib/utils/load-modes'
+import { getPlateSetup } from '@/lib/utils/plates'
+import { toExerciseBlocks, getUpNextMemberId, exerciseGroupTypeLabels } from '@/lib/utils/exercise-groups'
 import { WorkoutHeader } from './_components/workout-header'
 import { AddExerciseButton } from './_components/add-exercise-button'
 import { ExerciseItem } from './_components/exercise-item'
+import { ExerciseGroup } from './_components/exercise-group'
+import { GroupExercisesButton } from './_components/group-exercises-button'
+import { SortableExerciseList } from './_components/sortable-exercise-list'
+import { RestTimer } from './_components/rest-timer'
+import type { WorkoutExerciseWithDetails } from '@/types/workout'
 
 /**
  * Workout detail page with exercise and set logging
@@ -39,43 +51,133 @@ export default async function WorkoutDetailPage({
   // Following /docs/data-fetching.md guidelines:
   // - Using helper functions from /data directory
   // - Helper functions filter by userId (critical security requirement)
-  const [workout, workoutExercises, allExercises] = await Promise.all([
+  const [workout, workoutExercises, allExercises, exerciseAliases, settings] = await Promise.all([
     getWorkoutByIdForUser(userId, workoutIdNum),
     getWorkoutExercisesWithSets(userId, workoutIdNum),
-    getAllExercises(),
+    getExercisesForUser(userId),
+    getExerciseAliasesForUser(userId),
+    getUserSettings(userId),
   ])
 
   if (!workout || workoutExercises === null) {
     notFound()
   }
 
+  // Fetch the current personal records, per-exercise settings and last sessions for the exercises in this workout
+  const exerciseIds = workoutExercises.map((workoutExercise) => workoutExercise.exerciseId)
+  const [personalRecords, exerciseSettings, previousSessions] = await Promise.all([
+    getPersonalRecordsForExercises(userId, exerciseIds),
+    getExerciseSettingsForUser(userId, exerciseIds),
+    getPreviousSessionsForExercises(userId, workoutIdNum, exerciseIds),
+  ])
+
+  const exerciseSettingsById = new Map(
+    exerciseSettings.map((setting) => [setting.exerciseId, setting])
+  )
+  const previousSessionsById = new Map(
+    previousSessions.map((session) => [session.workoutExercise.exerciseId, session])
+  )
+  const plateSetup = getPlateSetup(settings.plateSetup, settings.weightUnit)
+  const { bodyweightKg } = workout
+
+  function renderExerciseItem(
+    workoutExercise: WorkoutExerciseWithDetails,
+    groupProps: { isUpNext: boolean; restsAfterSet: boolean } | null = null
+  ) {
+    return (
+      <ExerciseItem
+        key={workoutExercise.id}
+        workoutExercise={workoutExercise}
+        workoutId={workoutIdNum}
+        personalRecords={personalRecords.filter(
+          (record) => record.exerciseId === workoutExercise.exerciseId
+        )}
+        oneRepMaxFormula={settings.oneRepMaxFormula}
+        excludeWarmupSets={settings.excludeWarmupSets}
+        useEffortForOneRepMax={settings.useEffortForOneRepMax}
+        restSeconds={
+          exerciseSettingsById.get(workoutExercise.exerciseId)?.restSeconds ??
+          DEFAULT_REST_SECONDS
+        }
+        loadMode={
+          exerciseSettingsById.get(workoutExercise.exerciseId)?.loadMode ??
+          DEFAULT_LOAD_MODE
+        }
+        bodyweightKg={bodyweightKg}
+        weightUnit={settings.weightUnit}
+        plateSetup={plateSetup}
+        previousSession={previousSessionsById.get(workoutExercise.exerciseId) ?? null}
+        progression={exerciseSettingsById.get(workoutExercise.exerciseId)?.progression ?? null}
+        {...groupProps}
+      />
+    )
+  }
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       <div className="space-y-6">
         {/* Workout Header */}
-        <WorkoutHeader workout={workout} />
+        <WorkoutHeader workout={workout} weightUnit={settings.weightUnit} />
 
         {/* Exercises Section */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">Exercises</h2>
-            <AddExerciseButton
-              workoutId={workoutIdNum}
-              exercises={allExercises}
-            />
+            <div className="flex gap-2">
+              <GroupExercisesButton
+                workoutId={workoutIdNum}
+                workoutExercises={workoutExercises}
+              />
+              <AddExerciseButton
+                workoutId={workoutIdNum}
+                exercises={allExercises}
+                aliases={exerciseAliases}
+              />
+            </div>
           </div>
 
           {/* Exercise List */}
           {workoutExercises.length > 0 ? (
-            <div className="space-y-4">
-              {workoutExercises.map((workoutExercise) => (
-                <ExerciseItem
-                  key={workoutExercise.id}
-                  workoutExercise={workoutExercise}
-                  workoutId={workoutIdNum}
-                />
-              ))}
-            </div>
+            <SortableExerciseList
+              workoutId={workoutIdNum}
+              blocks={toExerciseBlocks(workoutExercises).map((block) => {
+                const workoutExerciseIds = block.exercises.map((workoutExercise) => workoutExercise.id)
+                const names = block.exercises.map((workoutExercise) => workoutExercise.exercise.name)
+
+                if (block.groupNumber === null || block.groupType === null) {
+                  return {
+                    key: `exercise-${workoutExerciseIds[0]}`,
+                    label: names[0],
+                    workoutExerciseIds,
+                    content: renderExerciseItem(block.exercises[0]),
+                  }
+                }
+
+                // Sets alternate between members; rest comes after the last one
+                const upNextId = getUpNextMemberId(block.exercises)
+                const lastId = workoutExerciseIds[workoutExerciseIds.length - 1]
+
+                return {
+                  key: `group-${block.groupNumber}`,
+                  label: `${exerciseGroupTypeLabels[block.groupType]} ${names.join(' + ')}`,
+                  workoutExerciseIds,
+                  content: (
+                    <ExerciseGroup
+                      workoutId={workoutIdNum}
+                      groupNumber={block.groupNumber}
+                      groupType={block.groupType}
+                    >
+                      {block.exercises.map((workoutExercise) =>
+                        renderExerciseItem(workoutExercise, {
+                          isUpNext: workoutExercise.id === upNextId,
+                          restsAfterSet: workoutExercise.id === lastId,
+                        })
+                      )}
+                    </ExerciseGroup>
+                  ),
+                }
+              })}
+            />
           ) : (
             <div className="text-center py-12 border-2 border-dashed rounded-lg">
               <p className="text-muted-foreground mb-4">
@@ -88,6 +190,9 @@ export default async function WorkoutDetailPage({
           )}
         </div>
       </div>
+
+      {/* Rest Timer */}
+      <RestTimer workoutId={workoutIdNum} />
     </div>
   )
 }
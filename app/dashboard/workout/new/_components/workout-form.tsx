@@ -7,8 +7,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { createWorkout, type CreateWorkoutInput } from '../actions'
 import { format } from 'date-fns'
+import { toExerciseBlocks } from '@/lib/utils/exercise-groups'
+import type { TemplateWithExercises } from '@/types/workout'
 
 /**
  * Workout creation form component
@@ -16,11 +25,34 @@ import { format } from 'date-fns'
  * - Using shadcn/ui components only
  * - Using date-fns for date formatting
  */
-export function WorkoutForm() {
+
+const BLANK_WORKOUT = 'blank'
+
+interface WorkoutFormProps {
+  templates: TemplateWithExercises[]
+}
+
+export function WorkoutForm({ templates }: WorkoutFormProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isCompleted, setIsCompleted] = useState(false)
+  const [name, setName] = useState('')
+  const [templateValue, setTemplateValue] = useState(BLANK_WORKOUT)
+
+  const selectedTemplate = templates.find(
+    (template) => template.id.toString() === templateValue
+  )
+
+  function handleTemplateChange(value: string) {
+    setTemplateValue(value)
+
+    // Prefill the name from the chosen template
+    const template = templates.find((template) => template.id.toString() === value)
+    if (template) {
+      setName(template.name)
+    }
+  }
 
   // Initialize with current date and time
   const now = new Date()
@@ -36,7 +68,6 @@ export function WorkoutForm() {
       const formData = new FormData(event.currentTarget)
 
       // Extract form data
-      const name = formData.get('name') as string
       const startDate = formData.get('startDate') as string
       const startTime = formData.get('startTime') as string
       const endDate = formData.get('endDate') as string
@@ -53,6 +84,7 @@ export function WorkoutForm() {
         name,
         startedAt,
         completedAt,
+        templateId: selectedTemplate?.id ?? null,
       }
 
       // Call Server Action
@@ -61,8 +93,9 @@ export function WorkoutForm() {
       const result = await createWorkout(input)
 
       // Handle successful creation with client-side redirect
+      // Workouts started from a template open straight away for logging
       if (result.success) {
-        router.push('/dashboard')
+        router.push(selectedTemplate ? `/dashboard/workout/${result.workoutId}` : '/dashboard')
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -80,6 +113,42 @@ export function WorkoutForm() {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Start From Template */}
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template">Start From</Label>
+              <Select
+                value={templateValue}
+                onValueChange={handleTemplateChange}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="template" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BLANK_WORKOUT}>Blank workout</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplate && (
+                <p className="text-sm text-muted-foreground">
+                  {/* Grouped exercises are joined with "+" */}
+                  {toExerciseBlocks(selectedTemplate.exercises)
+                    .map((block) =>
+                      block.exercises
+                        .map((templateExercise) => templateExercise.exercise.name)
+                        .join(' + ')
+                    )
+                    .join(' · ')}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Workout Name */}
           <div className="space-y-2">
             <Label htmlFor="name">Workout Name</Label>
@@ -88,6 +157,8 @@ export function WorkoutForm() {
               name="name"
               type="text"
               placeholder="e.g., Morning Strength Training"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
               required
               disabled={isLoading}
               maxLength={255}
@@ -2,7 +2,17 @@
 
 import { auth } from '@clerk/nextjs/server'
 import { z } from 'zod'
-import { createWorkoutForUser } from '@/data/workouts'
+import { createWorkoutForUser, deleteWorkoutForUser } from '@/data/workouts'
+import { getTemplateByIdForUser } from '@/data/templates'
+import {
+  addExercisesToWorkout,
+  addPrescribedSetsToWorkout,
+  getPreviousSessionsForExercises,
+} from '@/data/workout-exercises'
+import { getExerciseSettingsForUser } from '@/data/exercise-settings'
+import { getUserSettings } from '@/data/user-settings'
+import { suggestProgression } from '@/lib/utils/progression'
+import { STORED_WEIGHT_SCALE } from '@/lib/utils/units'
 
 /**
  * Validation schema for creating a new workout
@@ -12,11 +22,14 @@ import { createWorkoutForUser } from '@/data/workouts'
  *
  * Note: We accept ISO 8601 datetime strings and will parse them as-is.
  * The client should send local time in ISO format (YYYY-MM-DDTHH:mm:ss).
+ *
+ * When templateId is provided, the template's exercises are added to the new workout.
  */
 const createWorkoutSchema = z.object({
   name: z.string().min(1, 'Workout name is required').max(255, 'Name is too long'),
   startedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, 'Invalid date format'),
   completedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/, 'Invalid date format').optional().nullable(),
+  templateId: z.number().int().positive().optional().nullable(),
 })
 
 export type CreateWorkoutInput = z.infer<typeof createWorkoutSchema>
@@ -34,6 +47,15 @@ export async function createWorkout(input: CreateWorkoutInput) {
   // Validate input
   const validatedInput = createWorkoutSchema.parse(input)
 
+  // Verify that the template belongs to the user before creating anything
+  const template = validatedInput.templateId
+    ? await getTemplateByIdForUser(userId, validatedInput.templateId)
+    : null
+
+  if (validatedInput.templateId && !template) {
+    throw new Error('Template not found')
+  }
+
   // Convert string dates to Date objects
   const startedAt = new Date(validatedInput.startedAt)
   const completedAt = validatedInput.completedAt ? new Date(validatedInput.completedAt) : null
@@ -48,6 +70,57 @@ export async function createWorkout(input: CreateWorkoutInput) {
     completedAt,
   })
 
+  // Add the template's exercises in their saved order, keeping supersets and circuits
+  // The exercises and targets need the new workout's id, so they cannot be written in
+  // one batch; remove the workout (and, by cascade, its rows) if any step fails
+  if (template) {
+    try {
+      const exerciseIds = template.exercises.map((templateExercise) => templateExercise.exerciseId)
+      const added = await addExercisesToWorkout(userId, workout.id, exerciseIds, template.exercises)
+
+      // Exercises with a progression model start with the suggested sets as targets
+      const [exerciseSettings, previousSessions, settings] = await Promise.all([
+        getExerciseSettingsForUser(userId, exerciseIds),
+        getPreviousSessionsForExercises(userId, workout.id, exerciseIds),
+        getUserSettings(userId),
+      ])
+
+      const targets = added.flatMap((workoutExercise) => {
+        const exerciseSetting = exerciseSettings.find(
+          (setting) => setting.exerciseId === workoutExercise.exerciseId
+        )
+        const previousSession = previousSessions.find(
+          (session) => session.workoutExercise.exerciseId === workoutExercise.exerciseId
+        )
+        if (!exerciseSetting?.progression || !previousSession) {
+          return []
+        }
+
+        const suggestion = suggestProgression(previousSession.sets, exerciseSetting.progression, {
+          loadMode: exerciseSetting.loadMode,
+          bodyweightKg: workout.bodyweightKg,
+          formula: settings.oneRepMaxFormula,
+        })
+        if (!suggestion) {
+          return []
+        }
+
+        return Array.from({ length: suggestion.setCount }, (_, index) => ({
+          workoutExerciseId: workoutExercise.id,
+          setNumber: index + 1,
+          weightKg: suggestion.weightKg.toFixed(STORED_WEIGHT_SCALE),
+          reps: suggestion.reps,
+          isAmrap: false,
+        }))
+      })
+
+      await addPrescribedSetsToWorkout(userId, workout.id, targets)
+    } catch (error) {
+      await deleteWorkoutForUser(userId, workout.id)
+      throw error
+    }
+  }
+
   // Return success result
   // Client will handle redirect
   return { success: true, workoutId: workout.id }
@@ -1,5 +1,6 @@
 import { auth } from '@clerk/nextjs/server'
 import { redirect } from 'next/navigation'
+import { getTemplatesForUser } from '@/data/templates'
 import { WorkoutForm } from './_components/workout-form'
 
 /**
@@ -7,6 +8,9 @@ import { WorkoutForm } from './_components/workout-form'
  * Following /docs/auth.md guidelines:
  * - Using server-side auth() for authentication check
  * - Redirecting unauthenticated users to sign-in
+ *
+ * Following /docs/data-fetching.md guidelines:
+ * - Fetching the user's templates via helper functions from /data directory
  */
 export default async function NewWorkoutPage() {
   // Get authenticated user
@@ -16,6 +20,8 @@ export default async function NewWorkoutPage() {
     redirect('/sign-in')
   }
 
+  const templates = await getTemplatesForUser(userId)
+
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="mx-auto max-w-4xl space-y-6">
@@ -28,7 +34,7 @@ export default async function NewWorkoutPage() {
         </div>
 
         {/* Workout Form */}
-        <WorkoutForm />
+        <WorkoutForm templates={templates} />
       </div>
     </div>
   )
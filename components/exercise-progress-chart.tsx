@@ -0,0 +1,111 @@
+'use client'
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import { formatDate, formatShortDate } from '@/lib/utils/date'
+import { cn } from '@/lib/utils'
+import { getProgressMetricLabel, getProgressMetricValue, type ProgressMetric } from '@/lib/utils/progress'
+import type { WeightUnit } from '@/lib/utils/units'
+import type { ExerciseProgressPoint } from '@/types/workout'
+
+const metricColors: Record<ProgressMetric, string> = {
+  topSetWeight: 'var(--chart-1)',
+  bestE1rm: 'var(--chart-2)',
+  totalVolume: 'var(--chart-3)',
+  totalReps: 'var(--chart-4)',
+  totalDuration: 'var(--chart-5)',
+  totalDistance: 'var(--chart-5)',
+}
+
+interface ExerciseProgressChartProps {
+  data: ExerciseProgressPoint[]
+  metric: ProgressMetric
+  unit: WeightUnit
+  compact?: boolean
+  className?: string
+}
+
+/**
+ * Line chart of one progress metric per session
+ * Following /docs/ui.md guidelines:
+ * - Using the shadcn/ui chart component
+ * - Using the shared date helpers for date formatting
+ */
+export function ExerciseProgressChart({
+  data,
+  metric,
+  unit,
+  compact = false,
+  className,
+}: ExerciseProgressChartProps) {
+  const chartConfig = {
+    [metric]: {
+      label: getProgressMetricLabel(metric, unit),
+      color: metricColors[metric],
+    },
+  } satisfies ChartConfig
+
+  const chartData = data.map((point) => {
+    const value = getProgressMetricValue(point, metric, unit)
+    return {
+      date: point.date.getTime(),
+      [metric]: Math.round(value * 10) / 10,
+    }
+  })
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={cn(compact ? 'aspect-auto h-24 w-full' : 'aspect-auto h-56 w-full', className)}
+    >
+      <LineChart
+        data={chartData}
+        margin={compact ? { top: 4, right: 4, bottom: 4, left: 4 } : { top: 8, right: 12, left: 0 }}
+      >
+        {!compact && <CartesianGrid vertical={false} />}
+        <XAxis
+          dataKey="date"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value: number) => formatShortDate(value)}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          hide={compact}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={40}
+          domain={['auto', 'auto']}
+          hide={compact}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const date = payload?.[0]?.payload?.date
+                return typeof date === 'number' ? formatDate(date) : null
+              }}
+            />
+          }
+        />
+        <Line
+          dataKey={metric}
+          type="monotone"
+          stroke={`var(--color-${metric})`}
+          strokeWidth={2}
+          dot={!compact && chartData.length <= 30}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  progressRanges,
+  progressRangeLabels,
+  type ProgressRange,
+} from '@/lib/utils/date'
+
+interface ProgressRangeSelectProps {
+  value: ProgressRange
+}
+
+/**
+ * Date range picker for progress charts, stored in the `range` search param
+ */
+export function ProgressRangeSelect({ value }: ProgressRangeSelectProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const handleValueChange = (range: string) => {
+    const params = new URLSearchParams(searchParams)
+    params.set('range', range)
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  return (
+    <Select value={value} onValueChange={handleValueChange}>
+      <SelectTrigger size="sm" className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {progressRanges.map((range) => (
+          <SelectItem key={range} value={range}>
+            {progressRangeLabels[range]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
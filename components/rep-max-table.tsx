@@ -0,0 +1,52 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  buildRepMaxTable,
+  formatWeight,
+  type OneRepMaxFormula,
+} from '@/lib/utils/strength'
+import { fromKilograms, type WeightUnit } from '@/lib/utils/units'
+
+interface RepMaxTableProps {
+  oneRepMax: number
+  formula: OneRepMaxFormula
+  unit: WeightUnit
+}
+
+/**
+ * Rep-max table (1RM–12RM) estimated from a one-rep max
+ * Following /docs/ui.md guidelines:
+ * - Composing shadcn/ui Table components
+ */
+export function RepMaxTable({ oneRepMax, formula, unit }: RepMaxTableProps) {
+  const rows = buildRepMaxTable(oneRepMax, formula)
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Reps</TableHead>
+            <TableHead>Weight ({unit})</TableHead>
+            <TableHead>% of 1RM</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.reps}>
+              <TableCell className="font-medium">{row.reps}RM</TableCell>
+              <TableCell>{formatWeight(fromKilograms(row.weight, unit))}</TableCell>
+              <TableCell>{Math.round((row.weight / oneRepMax) * 100)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
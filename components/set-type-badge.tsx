@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge'
+import { setTypeLabels, type SetType } from '@/lib/utils/set-types'
+
+interface SetTypeBadgeProps {
+  setType: SetType
+}
+
+/**
+ * Badge for the type of a set; working sets are the default and show no badge
+ * Following /docs/ui.md guidelines:
+ * - Composing shadcn/ui Badge component
+ */
+export function SetTypeBadge({ setType }: SetTypeBadgeProps) {
+  if (setType === 'working') {
+    return null
+  }
+
+  return (
+    <Badge variant={setType === 'warmup' ? 'outline' : 'secondary'}>
+      {setTypeLabels[setType]}
+    </Badge>
+  )
+}
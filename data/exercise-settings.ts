@@ -0,0 +1,132 @@
+import { db } from "@/src/db";
+import { exercises, userExerciseSettings, workoutExercises, workouts, sets } from "@/src/db/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { DEFAULT_LOAD_MODE, type LoadMode } from "@/lib/utils/load-modes";
+import type { SetMetric } from "@/lib/utils/set-metrics";
+import type { ProgressionSettings } from "@/lib/utils/progression";
+
+/**
+ * Get the user's settings for a set of exercises
+ * Exercises without a saved row have no entry and use the defaults
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getExerciseSettingsForUser(
+  userId: string,
+  exerciseIds: number[]
+) {
+  if (exerciseIds.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(userExerciseSettings)
+    .where(
+      and(
+        eq(userExerciseSettings.userId, userId),
+        inArray(userExerciseSettings.exerciseId, exerciseIds)
+      )
+    );
+}
+
+/**
+ * Create or update the user's settings for one exercise
+ * SECURITY: Always associates settings with the provided userId
+ */
+export async function updateExerciseSettingsForUser(
+  userId: string,
+  exerciseId: number,
+  data: {
+    restSeconds?: number | null;
+    loadMode?: LoadMode;
+    progression?: ProgressionSettings | null;
+  }
+) {
+  const results = await db
+    .insert(userExerciseSettings)
+    .values({
+      userId,
+      exerciseId,
+      ...data,
+    })
+    .onConflictDoUpdate({
+      target: [userExerciseSettings.userId, userExerciseSettings.exerciseId],
+      set: {
+        ...data,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return results[0];
+}
+
+/**
+ * What a set of an exercise records and how its load is read
+ */
+export type SetRules = {
+  loadMode: LoadMode;
+  metrics: SetMetric[];
+};
+
+/**
+ * Get the user's load mode and the exercise's metrics for the exercise behind a workout exercise
+ * SECURITY: Validates workout exercise ownership via userId
+ */
+export async function getSetRulesForWorkoutExercise(
+  userId: string,
+  workoutExerciseId: number
+): Promise<SetRules> {
+  const result = await db
+    .select({
+      loadMode: userExerciseSettings.loadMode,
+      metrics: exercises.metrics,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .leftJoin(
+      userExerciseSettings,
+      and(
+        eq(userExerciseSettings.exerciseId, workoutExercises.exerciseId),
+        eq(userExerciseSettings.userId, userId)
+      )
+    )
+    .where(
+      and(
+        eq(workoutExercises.id, workoutExerciseId),
+        eq(workouts.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!result[0]) {
+    throw new Error("Workout exercise not found or access denied");
+  }
+
+  return {
+    loadMode: result[0].loadMode ?? DEFAULT_LOAD_MODE,
+    metrics: result[0].metrics,
+  };
+}
+
+/**
+ * Get the user's load mode and the exercise's metrics for the exercise a set was logged for
+ * SECURITY: Validates set ownership via userId
+ */
+export async function getSetRulesForSet(
+  userId: string,
+  setId: number
+): Promise<SetRules> {
+  const result = await db
+    .select({ workoutExerciseId: sets.workoutExerciseId })
+    .from(sets)
+    .where(eq(sets.id, setId))
+    .limit(1);
+
+  if (!result[0]) {
+    throw new Error("Set not found or access denied");
+  }
+
+  return await getSetRulesForWorkoutExercise(userId, result[0].workoutExerciseId);
+}
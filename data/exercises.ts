@@ -1,53 +1,126 @@
 import { db } from "@/src/db";
-import { exercises } from "@/src/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  exercises,
+  exerciseAliases,
+  workouts,
+  workoutExercises,
+  templateExercises,
+  userExerciseSettings,
+} from "@/src/db/schema";
+import { eq, and, or, isNull, asc, count, ne, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { cleanExerciseName, normalizeExerciseName } from "@/lib/utils/exercise-names";
+import {
+  sortSetMetrics,
+  haveSameSetMetrics,
+  formatSetMetricLabels,
+  type SetMetric,
+} from "@/lib/utils/set-metrics";
+import { recomputePersonalRecords } from "./personal-records";
 
 /**
- * Get all exercises
- * NOTE: Exercises are global reference data, not user-specific
+ * Exercises a user can see: the global catalog plus their own custom exercises
  */
-export async function getAllExercises() {
+function visibleToUser(userId: string) {
+  return or(isNull(exercises.userId), eq(exercises.userId, userId));
+}
+
+/**
+ * Get the global exercises plus the user's custom exercises
+ * SECURITY: Never returns other users' custom exercises
+ */
+export async function getExercisesForUser(userId: string) {
   return await db
     .select()
     .from(exercises)
+    .where(visibleToUser(userId))
     .orderBy(exercises.name);
 }
 
 /**
- * Get a single exercise by ID
+ * Get a single exercise by ID if it is global or owned by the user
+ * SECURITY: Never returns other users' custom exercises
  */
-export async function getExerciseById(exerciseId: number) {
+export async function getExerciseByIdForUser(userId: string, exerciseId: number) {
   const results = await db
     .select()
     .from(exercises)
-    .where(eq(exercises.id, exerciseId))
+    .where(and(eq(exercises.id, exerciseId), visibleToUser(userId)))
     .limit(1);
 
   return results[0] || null;
 }
 
 /**
- * Get a single exercise by name (case-insensitive)
+ * Get a single exercise by name among those visible to the user
+ * Matching ignores case and extra whitespace, and falls back to exercise aliases
+ * The user's own exercise or alias wins over a global one with the same name
+ * SECURITY: Never returns other users' custom exercises or follows their aliases
  */
-export async function getExerciseByName(name: string) {
+export async function getExerciseByNameForUser(userId: string, name: string) {
+  const normalizedName = normalizeExerciseName(name);
+
   const results = await db
     .select()
     .from(exercises)
-    .where(eq(exercises.name, name.trim()))
+    .where(and(eq(exercises.normalizedName, normalizedName), visibleToUser(userId)))
+    // Ascending order sorts nulls last, so the user's own exercise comes first
+    .orderBy(asc(exercises.userId))
     .limit(1);
 
-  return results[0] || null;
+  if (results[0]) {
+    return results[0];
+  }
+
+  const aliased = await db
+    .select({ exercise: exercises })
+    .from(exerciseAliases)
+    .innerJoin(exercises, eq(exerciseAliases.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(exerciseAliases.normalizedAlias, normalizedName),
+        or(isNull(exerciseAliases.userId), eq(exerciseAliases.userId, userId)),
+        visibleToUser(userId)
+      )
+    )
+    .orderBy(asc(exerciseAliases.userId))
+    .limit(1);
+
+  return aliased[0]?.exercise ?? null;
 }
 
 /**
- * Create a new exercise
- * NOTE: Exercises are global reference data
+ * Get the aliases of the exercises visible to the user
+ * SECURITY: Returns global aliases plus the user's own, never other users' aliases
  */
-export async function createExercise(name: string) {
+export async function getExerciseAliasesForUser(userId: string) {
+  return await db
+    .select({
+      exerciseId: exerciseAliases.exerciseId,
+      alias: exerciseAliases.alias,
+    })
+    .from(exerciseAliases)
+    .innerJoin(exercises, eq(exerciseAliases.exerciseId, exercises.id))
+    .where(
+      and(
+        or(isNull(exerciseAliases.userId), eq(exerciseAliases.userId, userId)),
+        visibleToUser(userId)
+      )
+    )
+    .orderBy(asc(exerciseAliases.alias));
+}
+
+/**
+ * Create a custom exercise owned by the user
+ * SECURITY: Always associates the exercise with the provided userId
+ */
+export async function createExerciseForUser(userId: string, name: string) {
   const results = await db
     .insert(exercises)
     .values({
-      name: name.trim(),
+      userId,
+      name: cleanExerciseName(name),
+      normalizedName: normalizeExerciseName(name),
     })
     .returning();
 
@@ -56,15 +129,250 @@ export async function createExercise(name: string) {
 
 /**
  * Get or create an exercise by name
- * If an exercise with the given name exists, return it
- * Otherwise, create a new exercise and return it
+ * If a global or custom exercise with the given name or alias is visible to the user, return it
+ * Otherwise, create a custom exercise owned by the user and return it
+ * SECURITY: New exercises are private to the user
  */
-export async function getOrCreateExercise(name: string) {
-  const existingExercise = await getExerciseByName(name);
+export async function getOrCreateExerciseForUser(userId: string, name: string) {
+  const existingExercise = await getExerciseByNameForUser(userId, name);
 
   if (existingExercise) {
     return existingExercise;
   }
 
-  return await createExercise(name);
+  return await createExerciseForUser(userId, name);
+}
+
+/**
+ * Rename one of the user's custom exercises
+ * SECURITY: Only updates exercises owned by the user; global exercises cannot be renamed
+ */
+export async function renameExerciseForUser(
+  userId: string,
+  exerciseId: number,
+  name: string
+) {
+  const normalizedName = normalizeExerciseName(name);
+
+  // The new name must not clash with another exercise the user can see
+  const clashes = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(
+      and(
+        eq(exercises.normalizedName, normalizedName),
+        ne(exercises.id, exerciseId),
+        visibleToUser(userId)
+      )
+    )
+    .limit(1);
+
+  if (clashes.length > 0) {
+    throw new Error("An exercise with this name already exists");
+  }
+
+  const results = await db
+    .update(exercises)
+    .set({
+      name: cleanExerciseName(name),
+      normalizedName,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .returning();
+
+  return results[0] || null;
+}
+
+/**
+ * Change which metrics the sets of one of the user's custom exercises record
+ * Sets logged before the change keep their values
+ * SECURITY: Only updates exercises owned by the user; global exercises cannot be changed
+ */
+export async function updateExerciseMetricsForUser(
+  userId: string,
+  exerciseId: number,
+  metrics: SetMetric[]
+) {
+  const results = await db
+    .update(exercises)
+    .set({
+      metrics: sortSetMetrics(metrics),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .returning();
+
+  return results[0] || null;
+}
+
+/**
+ * Delete one of the user's custom exercises
+ * Exercises still used in a workout or template are kept, so no history is lost
+ * SECURITY: Only deletes exercises owned by the user; global exercises cannot be deleted
+ */
+export async function deleteExerciseForUser(userId: string, exerciseId: number) {
+  // First verify the exercise belongs to the user
+  const owned = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .limit(1);
+
+  if (owned.length === 0) {
+    return null;
+  }
+
+  const [workoutUses, templateUses] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(workoutExercises)
+      .where(eq(workoutExercises.exerciseId, exerciseId)),
+    db
+      .select({ count: count() })
+      .from(templateExercises)
+      .where(eq(templateExercises.exerciseId, exerciseId)),
+  ]);
+
+  if (workoutUses[0].count > 0 || templateUses[0].count > 0) {
+    throw new Error(
+      "This exercise is used in your workouts or templates. Remove it from them before deleting it"
+    );
+  }
+
+  const results = await db
+    .delete(exercises)
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .returning();
+
+  return results[0] || null;
+}
+
+/**
+ * Get the user's custom exercises
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getCustomExercisesForUser(userId: string) {
+  return await db
+    .select()
+    .from(exercises)
+    .where(eq(exercises.userId, userId))
+    .orderBy(asc(exercises.name));
+}
+
+/**
+ * Merge a duplicate exercise into another one and delete it
+ * Workout and template entries move to the target, exercise settings move unless the
+ * user already has settings for the target, and the old name becomes an alias of the target.
+ * Personal records are then recomputed for every user whose history moved.
+ * SECURITY: Custom exercises can only be merged by their owner; global exercises only when
+ * canMergeGlobal is set (admins), and only into another global exercise
+ */
+export async function mergeExercisesForUser(
+  userId: string,
+  sourceExerciseId: number,
+  targetExerciseId: number,
+  options: { canMergeGlobal: boolean }
+) {
+  if (sourceExerciseId === targetExerciseId) {
+    throw new Error("Cannot merge an exercise into itself");
+  }
+
+  const [source, target] = await Promise.all([
+    getExerciseByIdForUser(userId, sourceExerciseId),
+    getExerciseByIdForUser(userId, targetExerciseId),
+  ]);
+
+  if (!source || !target) {
+    return null;
+  }
+
+  if (source.userId === null) {
+    if (!options.canMergeGlobal) {
+      throw new Error("Only admins can merge catalog exercises");
+    }
+    // Other users' history must not end up under someone's private exercise
+    if (target.userId !== null) {
+      throw new Error("Catalog exercises can only be merged into another catalog exercise");
+    }
+  }
+
+  // The moved sets must fit the target's inputs, history columns and validation
+  if (!haveSameSetMetrics(source.metrics, target.metrics)) {
+    throw new Error(
+      `Only exercises that record the same values can be merged (${formatSetMetricLabels(source.metrics)} vs ${formatSetMetricLabels(target.metrics)})`
+    );
+  }
+
+  // Everyone who logged the source exercise gets their records recomputed afterwards
+  const affectedUsers = await db
+    .selectDistinct({ userId: workouts.userId })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(eq(workoutExercises.exerciseId, source.id));
+
+  const targetSettings = alias(userExerciseSettings, "target_settings");
+  const oldName = normalizeExerciseName(source.name);
+
+  // Move everything in one batch; deleting the source cascades to its old records and leftover settings
+  await db.batch([
+    db
+      .update(workoutExercises)
+      .set({ exerciseId: target.id })
+      .where(eq(workoutExercises.exerciseId, source.id)),
+    db
+      .update(templateExercises)
+      .set({ exerciseId: target.id })
+      .where(eq(templateExercises.exerciseId, source.id)),
+    db
+      .update(userExerciseSettings)
+      .set({ exerciseId: target.id, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userExerciseSettings.exerciseId, source.id),
+          notExists(
+            db
+              .select({ userId: targetSettings.userId })
+              .from(targetSettings)
+              .where(
+                and(
+                  eq(targetSettings.userId, userExerciseSettings.userId),
+                  eq(targetSettings.exerciseId, target.id)
+                )
+              )
+          )
+        )
+      ),
+    db
+      .update(exerciseAliases)
+      .set({ exerciseId: target.id })
+      .where(eq(exerciseAliases.exerciseId, source.id)),
+    // The old name keeps working for whoever could see the source exercise
+    db
+      .insert(exerciseAliases)
+      .values({
+        exerciseId: target.id,
+        userId: source.userId,
+        alias: source.name,
+        normalizedAlias: oldName,
+      })
+      // An alias that already names another exercise keeps pointing there
+      .onConflictDoNothing(
+        source.userId === null
+          ? {
+              target: exerciseAliases.normalizedAlias,
+              where: isNull(exerciseAliases.userId),
+            }
+          : {
+              target: [exerciseAliases.userId, exerciseAliases.normalizedAlias],
+            }
+      ),
+    db.delete(exercises).where(eq(exercises.id, source.id)),
+  ]);
+
+  for (const affectedUser of affectedUsers) {
+    await recomputePersonalRecords(affectedUser.userId, target.id);
+  }
+
+  return target;
 }
@@ -0,0 +1,267 @@
+import { db } from "@/src/db";
+import { personalRecords, sets, userExerciseSettings, workoutExercises, workouts } from "@/src/db/schema";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import { estimateSetOneRepMax, calculateVolume, type OneRepMaxFormula } from "@/lib/utils/strength";
+import { getCountedSets, type SetType } from "@/lib/utils/set-types";
+import { withEffectiveLoad, DEFAULT_LOAD_MODE, type LoadMode } from "@/lib/utils/load-modes";
+import { STORED_WEIGHT_SCALE } from "@/lib/utils/units";
+import { hasLoadAndReps } from "@/lib/utils/set-metrics";
+import { getUserSettings } from "./user-settings";
+import type { NewPersonalRecord } from "@/types/workout";
+
+type LoggedSet = {
+  setId: number;
+  workoutId: number;
+  startedAt: Date;
+  bodyweightKg: number | null;
+  weightKg: string;
+  reps: number;
+  rpe: number | null;
+  rir: number | null;
+  setType: SetType;
+};
+
+/**
+ * Get the current personal records for a set of exercises
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getPersonalRecordsForExercises(
+  userId: string,
+  exerciseIds: number[]
+) {
+  if (exerciseIds.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(personalRecords)
+    .where(
+      and(
+        eq(personalRecords.userId, userId),
+        inArray(personalRecords.exerciseId, exerciseIds)
+      )
+    );
+}
+
+/**
+ * Walk the logged sets in chronological order and keep the set that first
+ * reached each best. Ties do not replace an existing record.
+ */
+function computePersonalRecords(
+  userId: string,
+  exerciseId: number,
+  loggedSets: LoggedSet[],
+  formula: OneRepMaxFormula,
+  useEffort: boolean,
+  loadMode: LoadMode
+): NewPersonalRecord[] {
+  let maxWeight: { set: LoggedSet; weight: number } | null = null;
+  let bestE1rm: { set: LoggedSet; e1rm: number } | null = null;
+  const maxRepsByWeight = new Map<string, LoggedSet>();
+  const sessionVolumes = new Map<number, { set: LoggedSet; volume: number }>();
+
+  for (const set of loggedSets) {
+    const weight = parseFloat(set.weightKg);
+    // e1RM and volume include bodyweight for bodyweight and assisted exercises
+    const effectiveSet = withEffectiveLoad(set, loadMode, set.bodyweightKg);
+    const e1rm = estimateSetOneRepMax(effectiveSet, formula, useEffort);
+
+    if (!maxWeight || weight > maxWeight.weight) {
+      maxWeight = { set, weight };
+    }
+
+    if (!bestE1rm || e1rm > bestE1rm.e1rm) {
+      bestE1rm = { set, e1rm };
+    }
+
+    const weightKey = weight.toFixed(STORED_WEIGHT_SCALE);
+    const repsRecord = maxRepsByWeight.get(weightKey);
+    if (!repsRecord || set.reps > repsRecord.reps) {
+      maxRepsByWeight.set(weightKey, set);
+    }
+
+    const session = sessionVolumes.get(set.workoutId);
+    sessionVolumes.set(set.workoutId, {
+      set: session?.set ?? set,
+      volume:
+        (session?.volume ?? 0) +
+        calculateVolume(parseFloat(effectiveSet.weightKg), set.reps),
+    });
+  }
+
+  const records: NewPersonalRecord[] = [];
+  const base = { userId, exerciseId };
+
+  if (maxWeight) {
+    records.push({
+      ...base,
+      recordType: "max_weight",
+      value: maxWeight.weight.toFixed(STORED_WEIGHT_SCALE),
+      weightKg: maxWeight.set.weightKg,
+      reps: maxWeight.set.reps,
+      setId: maxWeight.set.setId,
+      workoutId: maxWeight.set.workoutId,
+      achievedAt: maxWeight.set.startedAt,
+    });
+  }
+
+  if (bestE1rm) {
+    records.push({
+      ...base,
+      recordType: "best_e1rm",
+      value: bestE1rm.e1rm.toFixed(2),
+      weightKg: bestE1rm.set.weightKg,
+      reps: bestE1rm.set.reps,
+      setId: bestE1rm.set.setId,
+      workoutId: bestE1rm.set.workoutId,
+      achievedAt: bestE1rm.set.startedAt,
+    });
+  }
+
+  for (const set of maxRepsByWeight.values()) {
+    records.push({
+      ...base,
+      recordType: "max_reps",
+      value: set.reps.toFixed(2),
+      weightKg: set.weightKg,
+      reps: set.reps,
+      setId: set.setId,
+      workoutId: set.workoutId,
+      achievedAt: set.startedAt,
+    });
+  }
+
+  // Map preserves insertion order, so sessions are already chronological
+  let bestSession: { set: LoggedSet; volume: number } | null = null;
+  for (const session of sessionVolumes.values()) {
+    if (!bestSession || session.volume > bestSession.volume) {
+      bestSession = session;
+    }
+  }
+
+  if (bestSession) {
+    records.push({
+      ...base,
+      recordType: "best_session_volume",
+      value: bestSession.volume.toFixed(2),
+      setId: null,
+      workoutId: bestSession.set.workoutId,
+      achievedAt: bestSession.set.startedAt,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Recompute the personal records for one exercise from every set the user has logged
+ * Records are rebuilt from scratch so that edits and deletions are reflected
+ * Estimated 1RMs use the user's preferred formula (adjusted for RPE/RIR when
+ * enabled), and warm-up sets are skipped when the user excludes them from statistics.
+ * For bodyweight and assisted exercises, e1RM and volume include the workout's bodyweight
+ * SECURITY: Only considers sets from workouts owned by the user
+ */
+export async function recomputePersonalRecords(
+  userId: string,
+  exerciseId: number
+) {
+  const loggedSets = await db
+    .select({
+      setId: sets.id,
+      workoutId: workouts.id,
+      startedAt: workouts.startedAt,
+      bodyweightKg: workouts.bodyweightKg,
+      weightKg: sets.weightKg,
+      reps: sets.reps,
+      rpe: sets.rpe,
+      rir: sets.rir,
+      setType: sets.setType,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        eq(workoutExercises.exerciseId, exerciseId)
+      )
+    )
+    .orderBy(
+      asc(workouts.startedAt),
+      asc(workouts.id),
+      asc(workoutExercises.order),
+      asc(sets.setNumber)
+    );
+
+  const settings = await getUserSettings(userId);
+  const exerciseSettings = await db
+    .select({ loadMode: userExerciseSettings.loadMode })
+    .from(userExerciseSettings)
+    .where(
+      and(
+        eq(userExerciseSettings.userId, userId),
+        eq(userExerciseSettings.exerciseId, exerciseId)
+      )
+    )
+    .limit(1);
+
+  const records = computePersonalRecords(
+    userId,
+    exerciseId,
+    // Records compare weight and reps, so timed and distance sets have none
+    getCountedSets(loggedSets, settings.excludeWarmupSets).filter(hasLoadAndReps),
+    settings.oneRepMaxFormula,
+    settings.useEffortForOneRepMax,
+    exerciseSettings[0]?.loadMode ?? DEFAULT_LOAD_MODE
+  );
+
+  const deleteExisting = db
+    .delete(personalRecords)
+    .where(
+      and(
+        eq(personalRecords.userId, userId),
+        eq(personalRecords.exerciseId, exerciseId)
+      )
+    );
+
+  if (records.length === 0) {
+    await deleteExisting;
+    return [];
+  }
+
+  // Replace the old records in a single round trip
+  const [, inserted] = await db.batch([
+    deleteExisting,
+    db.insert(personalRecords).values(records).returning(),
+  ]);
+
+  return inserted;
+}
+
+/**
+ * Recompute the personal records for the exercise behind a workout exercise
+ * SECURITY: Validates workout exercise ownership via userId
+ */
+export async function recomputePersonalRecordsForWorkoutExercise(
+  userId: string,
+  workoutExerciseId: number
+) {
+  const result = await db
+    .select({ exerciseId: workoutExercises.exerciseId })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workoutExercises.id, workoutExerciseId),
+        eq(workouts.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!result[0]) {
+    throw new Error("Workout exercise not found or access denied");
+  }
+
+  return await recomputePersonalRecords(userId, result[0].exerciseId);
+}
@@ -0,0 +1,170 @@
+import { db } from "@/src/db";
+import { programEnrollments, prescribedSets, workouts, workoutExercises, sets } from "@/src/db/schema";
+import { eq, and, desc, gt, isNull, notInArray } from "drizzle-orm";
+import { buildProgramSchedule, type ProgramDefinition } from "@/lib/utils/programs";
+import type { WeightUnit } from "@/lib/utils/units";
+import { createWorkoutForUser } from "./workouts";
+import { addExercisesToWorkout } from "./workout-exercises";
+import { getOrCreateExerciseForUser } from "./exercises";
+
+/**
+ * Get all program enrollments for a specific user (most recent first)
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getProgramEnrollmentsForUser(userId: string) {
+  return await db
+    .select()
+    .from(programEnrollments)
+    .where(eq(programEnrollments.userId, userId))
+    .orderBy(desc(programEnrollments.startDate));
+}
+
+/**
+ * Enroll a user in a program and generate its scheduled workouts
+ * Every workout is created with the prescribed sets for each exercise attached.
+ * If any insert fails, the enrollment and the workouts created so far are deleted
+ * (their exercises and prescribed sets cascade), so no partial program is left behind
+ * SECURITY: Always associates the enrollment and workouts with the provided userId
+ */
+export async function enrollUserInProgram(
+  userId: string,
+  program: ProgramDefinition,
+  startDate: Date,
+  inputs: Record<string, number>,
+  unit: WeightUnit
+) {
+  const schedule = buildProgramSchedule(program, startDate, inputs, unit);
+
+  // Resolve the program's exercises up front; they are kept even if enrolling fails
+  const exerciseIdsByName = new Map<string, number>();
+  for (const scheduled of schedule) {
+    for (const { exerciseName } of scheduled.exercises) {
+      if (!exerciseIdsByName.has(exerciseName)) {
+        const exercise = await getOrCreateExerciseForUser(userId, exerciseName);
+        exerciseIdsByName.set(exerciseName, exercise.id);
+      }
+    }
+  }
+
+  const enrollmentResults = await db
+    .insert(programEnrollments)
+    .values({
+      userId,
+      programId: program.id,
+      startDate,
+      inputs,
+    })
+    .returning();
+
+  const enrollment = enrollmentResults[0];
+
+  try {
+    for (const scheduled of schedule) {
+      const workout = await createWorkoutForUser(userId, {
+        name: scheduled.name,
+        startedAt: scheduled.startedAt,
+        programEnrollmentId: enrollment.id,
+        programWeek: scheduled.week,
+        programDay: scheduled.day,
+      });
+
+      const added = await addExercisesToWorkout(
+        userId,
+        workout.id,
+        scheduled.exercises.map(({ exerciseName }) => exerciseIdsByName.get(exerciseName)!)
+      );
+
+      const prescribed = scheduled.exercises.flatMap((exercise, index) =>
+        exercise.sets.map((set) => ({
+          workoutExerciseId: added[index].id,
+          setNumber: set.setNumber,
+          weightKg: set.weightKg,
+          reps: set.reps,
+          isAmrap: set.isAmrap,
+        }))
+      );
+
+      if (prescribed.length > 0) {
+        await db.insert(prescribedSets).values(prescribed);
+      }
+    }
+  } catch (error) {
+    await db.batch([
+      db
+        .delete(workouts)
+        .where(
+          and(
+            eq(workouts.userId, userId),
+            eq(workouts.programEnrollmentId, enrollment.id)
+          )
+        ),
+      db
+        .delete(programEnrollments)
+        .where(
+          and(
+            eq(programEnrollments.userId, userId),
+            eq(programEnrollments.id, enrollment.id)
+          )
+        ),
+    ]);
+    throw error;
+  }
+
+  return enrollment;
+}
+
+/**
+ * Leave a program
+ * Upcoming workouts from the program without any logged sets are deleted;
+ * past or started workouts are kept and detached from the enrollment
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function deleteProgramEnrollmentForUser(
+  userId: string,
+  enrollmentId: number
+) {
+  const results = await db
+    .select()
+    .from(programEnrollments)
+    .where(
+      and(
+        eq(programEnrollments.userId, userId),
+        eq(programEnrollments.id, enrollmentId)
+      )
+    )
+    .limit(1);
+
+  if (!results[0]) {
+    throw new Error("Program enrollment not found or access denied");
+  }
+
+  const workoutsWithLoggedSets = db
+    .select({ workoutId: workoutExercises.workoutId })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id));
+
+  const [, deleted] = await db.batch([
+    db
+      .delete(workouts)
+      .where(
+        and(
+          eq(workouts.userId, userId),
+          eq(workouts.programEnrollmentId, enrollmentId),
+          gt(workouts.startedAt, new Date()),
+          isNull(workouts.completedAt),
+          notInArray(workouts.id, workoutsWithLoggedSets)
+        )
+      ),
+    db
+      .delete(programEnrollments)
+      .where(
+        and(
+          eq(programEnrollments.userId, userId),
+          eq(programEnrollments.id, enrollmentId)
+        )
+      )
+      .returning(),
+  ]);
+
+  return deleted[0] || null;
+}
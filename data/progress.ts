@@ -0,0 +1,203 @@
+import { db } from "@/src/db";
+import { exercises, sets, userExerciseSettings, workoutExercises, workouts } from "@/src/db/schema";
+import { eq, and, gte, asc, desc, countDistinct, isNotNull } from "drizzle-orm";
+import {
+  estimateSetOneRepMax,
+  calculateVolume,
+  type OneRepMaxFormula,
+} from "@/lib/utils/strength";
+import { getCountedSets } from "@/lib/utils/set-types";
+import { withEffectiveLoad, DEFAULT_LOAD_MODE } from "@/lib/utils/load-modes";
+import { hasLoadAndReps } from "@/lib/utils/set-metrics";
+import type { ExerciseProgressPoint, MuscleGroupVolume } from "@/types/workout";
+
+/**
+ * Get per-session progress metrics for an exercise
+ * Sets are grouped by the workout they belong to and ordered by workouts.startedAt
+ * Warm-up sets are skipped when excludeWarmupSets is set, and estimated 1RMs
+ * account for RPE/RIR when useEffortForOneRepMax is set. For bodyweight and
+ * assisted exercises, e1RM and volume include the workout's bodyweight.
+ * Load metrics only count sets with both a weight and reps
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getExerciseProgressForUser(
+  userId: string,
+  exerciseId: number,
+  options: {
+    from?: Date | null;
+    oneRepMaxFormula: OneRepMaxFormula;
+    excludeWarmupSets: boolean;
+    useEffortForOneRepMax: boolean;
+  }
+): Promise<ExerciseProgressPoint[]> {
+  const conditions = [
+    eq(workouts.userId, userId),
+    eq(workoutExercises.exerciseId, exerciseId),
+  ];
+
+  if (options.from) {
+    conditions.push(gte(workouts.startedAt, options.from));
+  }
+
+  const results = await db
+    .select({
+      workoutId: workouts.id,
+      startedAt: workouts.startedAt,
+      bodyweightKg: workouts.bodyweightKg,
+      loadMode: userExerciseSettings.loadMode,
+      weightKg: sets.weightKg,
+      reps: sets.reps,
+      durationSeconds: sets.durationSeconds,
+      distanceMeters: sets.distanceMeters,
+      rpe: sets.rpe,
+      rir: sets.rir,
+      setType: sets.setType,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .leftJoin(
+      userExerciseSettings,
+      and(
+        eq(userExerciseSettings.exerciseId, workoutExercises.exerciseId),
+        eq(userExerciseSettings.userId, userId)
+      )
+    )
+    .where(and(...conditions))
+    .orderBy(asc(workouts.startedAt), asc(workouts.id));
+
+  // Aggregate sets into one point per session
+  const sessionMap = new Map<number, ExerciseProgressPoint>();
+
+  // Sessions whose top set weight has been set; assisted loads are negative, so the
+  // first weighted set starts the maximum rather than 0
+  const weightedSessions = new Set<number>();
+
+  for (const row of getCountedSets(results, options.excludeWarmupSets)) {
+    const point = sessionMap.get(row.workoutId) ?? {
+      workoutId: row.workoutId,
+      date: row.startedAt,
+      topSetWeight: 0,
+      bestE1rm: 0,
+      totalVolume: 0,
+      totalReps: 0,
+      totalDuration: 0,
+      totalDistance: 0,
+    };
+
+    if (row.weightKg !== null) {
+      const weight = parseFloat(row.weightKg);
+      point.topSetWeight = weightedSessions.has(row.workoutId)
+        ? Math.max(point.topSetWeight, weight)
+        : weight;
+      weightedSessions.add(row.workoutId);
+    }
+    if (hasLoadAndReps(row)) {
+      const effectiveRow = withEffectiveLoad(row, row.loadMode ?? DEFAULT_LOAD_MODE, row.bodyweightKg);
+      const e1rm = estimateSetOneRepMax(effectiveRow, options.oneRepMaxFormula, options.useEffortForOneRepMax);
+      point.bestE1rm = Math.max(point.bestE1rm, e1rm);
+      point.totalVolume += calculateVolume(parseFloat(effectiveRow.weightKg), row.reps);
+    }
+    point.totalReps += row.reps ?? 0;
+    point.totalDuration += row.durationSeconds ?? 0;
+    point.totalDistance += row.distanceMeters ?? 0;
+
+    sessionMap.set(row.workoutId, point);
+  }
+
+  return Array.from(sessionMap.values());
+}
+
+/**
+ * Get the exercises a user has trained in the most workouts
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getMostTrainedExercisesForUser(
+  userId: string,
+  limit: number
+) {
+  return await db
+    .select({
+      exerciseId: exercises.id,
+      name: exercises.name,
+      metrics: exercises.metrics,
+      sessionCount: countDistinct(workouts.id),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(eq(workouts.userId, userId))
+    .groupBy(exercises.id, exercises.name, exercises.metrics)
+    .orderBy(desc(countDistinct(workouts.id)), asc(exercises.name))
+    .limit(limit);
+}
+
+/**
+ * Get the sets and volume the user trained per muscle group
+ * Each set counts toward its exercise's primary muscle; uncategorized exercises are skipped.
+ * Volume includes bodyweight for bodyweight and assisted exercises, and only
+ * counts sets with both a weight and reps
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getMuscleGroupVolumeForUser(
+  userId: string,
+  options: {
+    from?: Date | null;
+    excludeWarmupSets: boolean;
+  }
+): Promise<MuscleGroupVolume[]> {
+  const conditions = [
+    eq(workouts.userId, userId),
+    isNotNull(exercises.primaryMuscle),
+  ];
+
+  if (options.from) {
+    conditions.push(gte(workouts.startedAt, options.from));
+  }
+
+  const results = await db
+    .select({
+      muscleGroup: exercises.primaryMuscle,
+      bodyweightKg: workouts.bodyweightKg,
+      loadMode: userExerciseSettings.loadMode,
+      weightKg: sets.weightKg,
+      reps: sets.reps,
+      setType: sets.setType,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .leftJoin(
+      userExerciseSettings,
+      and(
+        eq(userExerciseSettings.exerciseId, workoutExercises.exerciseId),
+        eq(userExerciseSettings.userId, userId)
+      )
+    )
+    .where(and(...conditions));
+
+  const volumeMap = new Map<string, MuscleGroupVolume>();
+
+  for (const row of getCountedSets(results, options.excludeWarmupSets)) {
+    if (!row.muscleGroup) {
+      continue;
+    }
+
+    const entry = volumeMap.get(row.muscleGroup) ?? {
+      muscleGroup: row.muscleGroup,
+      setCount: 0,
+      totalVolume: 0,
+    };
+
+    entry.setCount += 1;
+    if (hasLoadAndReps(row)) {
+      const effectiveRow = withEffectiveLoad(row, row.loadMode ?? DEFAULT_LOAD_MODE, row.bodyweightKg);
+      entry.totalVolume += calculateVolume(parseFloat(effectiveRow.weightKg), row.reps);
+    }
+
+    volumeMap.set(row.muscleGroup, entry);
+  }
+
+  return Array.from(volumeMap.values()).sort((a, b) => b.setCount - a.setCount);
+}
@@ -1,6 +1,8 @@
 import { db } from "@/src/db";
 import { sets, workoutExercises, workouts } from "@/src/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, gte, lt, sql, count } from "drizzle-orm";
+import type { SetType } from "@/lib/utils/set-types";
+import type { MeasuredSet } from "@/lib/utils/set-metrics";
 
 /**
  * Helper function to verify workout exercise ownership
@@ -51,42 +53,219 @@ async function verifySetOwnership(userId: string, setId: number) {
   return result[0];
 }
 
+// Attempts at numbering a new set before giving up on concurrent writes
+const MAX_SET_NUMBER_ATTEMPTS = 3;
+
+const CONCURRENT_SET_ERROR = "Another set was saved at the same time. Please try again";
+
+/**
+ * Whether a query failed on a unique constraint (Postgres error 23505)
+ * Drizzle wraps driver errors, so the code may be on the cause
+ */
+function isUniqueViolation(error: unknown): boolean {
+  const codeOf = (value: unknown) =>
+    typeof value === "object" && value !== null && "code" in value ? value.code : undefined;
+  return (
+    codeOf(error) === "23505" ||
+    (error instanceof Error && codeOf(error.cause) === "23505")
+  );
+}
+
+/**
+ * Move the sets of a workout exercise numbered from fromSetNumber up by offset
+ * Postgres checks the unique (workout_exercise_id, set_number) constraint row by
+ * row, so sets pass through negative numbers to never clash mid-update.
+ * Returns both queries for the caller to run in the same batch.
+ */
+function shiftSetNumbersFrom(
+  workoutExerciseId: number,
+  fromSetNumber: number,
+  offset: number
+) {
+  return [
+    db
+      .update(sets)
+      .set({ setNumber: sql`-(${sets.setNumber} + ${offset})` })
+      .where(
+        and(
+          eq(sets.workoutExerciseId, workoutExerciseId),
+          gte(sets.setNumber, fromSetNumber)
+        )
+      ),
+    db
+      .update(sets)
+      .set({ setNumber: sql`-${sets.setNumber}` })
+      .where(
+        and(
+          eq(sets.workoutExerciseId, workoutExerciseId),
+          lt(sets.setNumber, 0)
+        )
+      ),
+  ] as const;
+}
+
 /**
  * Create a new set for a workout exercise
+ * The set number is assigned here: the set is appended after the last set, or
+ * inserted at position (1-based) with the sets from there on moved down one.
+ * Another set saved at the same moment can claim the same number; the insert is
+ * then retried with a fresh number, and a friendly error is thrown if it keeps clashing
+ * measurements holds the metrics the exercise tracks, with the others null
+ * restSeconds is the rest the user actually took before this set, when timed
+ * rpe and rir are optional effort ratings, notes is optional free text
  * SECURITY: Validates workout exercise ownership via userId
  */
 export async function createSet(
   userId: string,
   workoutExerciseId: number,
-  setNumber: number,
-  weightKg: string,
-  reps: number
+  measurements: MeasuredSet,
+  options: {
+    position?: number;
+    setType?: SetType;
+    rpe?: number | null;
+    rir?: number | null;
+    restSeconds?: number | null;
+    notes?: string | null;
+  } = {}
 ) {
   // Verify ownership
   await verifyWorkoutExerciseOwnership(userId, workoutExerciseId);
 
-  const results = await db
-    .insert(sets)
-    .values({
-      workoutExerciseId,
-      setNumber,
-      weightKg,
-      reps,
-    })
-    .returning();
+  const values = {
+    workoutExerciseId,
+    ...measurements,
+    setType: options.setType,
+    rpe: options.rpe ?? null,
+    rir: options.rir ?? null,
+    restSeconds: options.restSeconds ?? null,
+    notes: options.notes ?? null,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insertSetAt(workoutExerciseId, values, options.position);
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      if (attempt === MAX_SET_NUMBER_ATTEMPTS) {
+        throw new Error(CONCURRENT_SET_ERROR);
+      }
+    }
+  }
+}
+
+/**
+ * Insert a set, appended or at a position, numbering it from the sets saved so far
+ */
+async function insertSetAt(
+  workoutExerciseId: number,
+  values: Omit<typeof sets.$inferInsert, "setNumber">,
+  position: number | undefined
+) {
+  const countResult = await db
+    .select({ setCount: count() })
+    .from(sets)
+    .where(eq(sets.workoutExerciseId, workoutExerciseId));
+
+  const setCount = countResult[0]?.setCount ?? 0;
 
-  return results[0];
+  if (position === undefined || position > setCount) {
+    // Number from the current last set in the same statement, so a stale
+    // client never picks the number
+    const results = await db
+      .insert(sets)
+      .values({
+        ...values,
+        setNumber: sql`(select coalesce(max(${sets.setNumber}), 0) + 1 from ${sets} where ${sets.workoutExerciseId} = ${workoutExerciseId})`,
+      })
+      .returning();
+
+    return results[0];
+  }
+
+  // Make room and insert in one batch so numbering never has a gap
+  const setNumber = Math.max(1, position);
+  const [, , inserted] = await db.batch([
+    ...shiftSetNumbersFrom(workoutExerciseId, setNumber, 1),
+    db
+      .insert(sets)
+      .values({ ...values, setNumber })
+      .returning(),
+  ]);
+
+  return inserted[0];
+}
+
+/**
+ * Insert warm-up sets ahead of the sets of a workout exercise
+ * The warm-ups become sets 1..n and the existing sets move down in the same batch,
+ * so a failure never leaves the numbering half-shifted. A workout exercise that
+ * already has warm-up sets is rejected, so generating twice does not add a second ramp.
+ * SECURITY: Validates workout exercise ownership via userId
+ */
+export async function createWarmupSets(
+  userId: string,
+  workoutExerciseId: number,
+  warmups: MeasuredSet[]
+) {
+  // Verify ownership
+  await verifyWorkoutExerciseOwnership(userId, workoutExerciseId);
+
+  const existingWarmups = await db
+    .select({ setCount: count() })
+    .from(sets)
+    .where(
+      and(
+        eq(sets.workoutExerciseId, workoutExerciseId),
+        eq(sets.setType, "warmup")
+      )
+    );
+
+  if ((existingWarmups[0]?.setCount ?? 0) > 0) {
+    throw new Error("This exercise already has warm-up sets");
+  }
+
+  try {
+    const [, , inserted] = await db.batch([
+      ...shiftSetNumbersFrom(workoutExerciseId, 1, warmups.length),
+      db
+        .insert(sets)
+        .values(
+          warmups.map((warmup, index) => ({
+            workoutExerciseId,
+            ...warmup,
+            setNumber: index + 1,
+            setType: "warmup" as const,
+          }))
+        )
+        .returning(),
+    ]);
+
+    return inserted;
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new Error(CONCURRENT_SET_ERROR);
+    }
+    throw error;
+  }
 }
 
 /**
  * Update an existing set
+ * measurements holds the metrics the exercise tracks, with the others null
  * SECURITY: Validates set ownership via userId
  */
 export async function updateSet(
   userId: string,
   setId: number,
-  weightKg: string,
-  reps: number
+  measurements: MeasuredSet,
+  options: {
+    setType?: SetType;
+    rpe?: number | null;
+    rir?: number | null;
+    notes?: string | null;
+  } = {}
 ) {
   // Verify ownership
   await verifySetOwnership(userId, setId);
@@ -94,8 +273,11 @@ export async function updateSet(
   const results = await db
     .update(sets)
     .set({
-      weightKg,
-      reps,
+      ...measurements,
+      setType: options.setType,
+      rpe: options.rpe,
+      rir: options.rir,
+      notes: options.notes,
     })
     .where(eq(sets.id, setId))
     .returning();
@@ -104,17 +286,17 @@ export async function updateSet(
 }
 
 /**
- * Delete a set
+ * Delete a set and renumber the sets after it so numbering has no gaps
  * SECURITY: Validates set ownership via userId
  */
 export async function deleteSet(userId: string, setId: number) {
   // Verify ownership
-  await verifySetOwnership(userId, setId);
+  const { set } = await verifySetOwnership(userId, setId);
 
-  const results = await db
-    .delete(sets)
-    .where(eq(sets.id, setId))
-    .returning();
+  const [results] = await db.batch([
+    db.delete(sets).where(eq(sets.id, setId)).returning(),
+    ...shiftSetNumbersFrom(set.workoutExerciseId, set.setNumber + 1, -1),
+  ]);
 
   return results[0] || null;
 }
@@ -0,0 +1,134 @@
+import { db } from "@/src/db";
+import { workoutTemplates, templateExercises, workoutExercises, exercises } from "@/src/db/schema";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import { getWorkoutByIdForUser } from "./workouts";
+import type { TemplateWithExercises } from "@/types/workout";
+
+/**
+ * Get all workout templates for a specific user, with their exercises in order
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getTemplatesForUser(
+  userId: string
+): Promise<TemplateWithExercises[]> {
+  const templates = await db
+    .select()
+    .from(workoutTemplates)
+    .where(eq(workoutTemplates.userId, userId))
+    .orderBy(asc(workoutTemplates.name));
+
+  if (templates.length === 0) {
+    return [];
+  }
+
+  const exerciseRows = await db
+    .select()
+    .from(templateExercises)
+    .innerJoin(exercises, eq(templateExercises.exerciseId, exercises.id))
+    .where(
+      inArray(
+        templateExercises.templateId,
+        templates.map((template) => template.id)
+      )
+    )
+    .orderBy(asc(templateExercises.order));
+
+  return templates.map((template) => ({
+    ...template,
+    exercises: exerciseRows
+      .filter((row) => row.template_exercises.templateId === template.id)
+      .map((row) => ({ ...row.template_exercises, exercise: row.exercises })),
+  }));
+}
+
+/**
+ * Get a single workout template with its exercises for a specific user
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getTemplateByIdForUser(
+  userId: string,
+  templateId: number
+): Promise<TemplateWithExercises | null> {
+  const results = await db
+    .select()
+    .from(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.userId, userId),
+        eq(workoutTemplates.id, templateId)
+      )
+    )
+    .limit(1);
+
+  const template = results[0];
+  if (!template) {
+    return null;
+  }
+
+  const exerciseRows = await db
+    .select()
+    .from(templateExercises)
+    .innerJoin(exercises, eq(templateExercises.exerciseId, exercises.id))
+    .where(eq(templateExercises.templateId, templateId))
+    .orderBy(asc(templateExercises.order));
+
+  return {
+    ...template,
+    exercises: exerciseRows.map((row) => ({
+      ...row.template_exercises,
+      exercise: row.exercises,
+    })),
+  };
+}
+
+/**
+ * Save the exercises of a workout, in order and with their groups, as a new template
+ * SECURITY: Validates workout ownership via userId before copying
+ */
+export async function createTemplateFromWorkout(
+  userId: string,
+  workoutId: number,
+  name: string
+) {
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  const exercisesInWorkout = await db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      groupNumber: workoutExercises.groupNumber,
+      groupType: workoutExercises.groupType,
+    })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId))
+    .orderBy(asc(workoutExercises.order));
+
+  if (exercisesInWorkout.length === 0) {
+    throw new Error("Add at least one exercise before saving a template");
+  }
+
+  const templateResults = await db
+    .insert(workoutTemplates)
+    .values({
+      userId,
+      name,
+    })
+    .returning();
+
+  const template = templateResults[0];
+
+  await db.insert(templateExercises).values(
+    exercisesInWorkout.map((row, index) => ({
+      templateId: template.id,
+      exerciseId: row.exerciseId,
+      order: index,
+      groupNumber: row.groupNumber,
+      groupType: row.groupType,
+    }))
+  );
+
+  return template;
+}
@@ -0,0 +1,71 @@
+import { db } from "@/src/db";
+import { userSettings } from "@/src/db/schema";
+import { eq } from "drizzle-orm";
+import { DEFAULT_ONE_REP_MAX_FORMULA, type OneRepMaxFormula } from "@/lib/utils/strength";
+import { DEFAULT_WEIGHT_UNIT, type WeightUnit } from "@/lib/utils/units";
+import type { PlateSetup } from "@/lib/utils/plates";
+import type { WarmupStep } from "@/lib/utils/warmups";
+import type { UserSettings } from "@/types/workout";
+
+/**
+ * Get the settings for a specific user
+ * Users without a saved settings row get the defaults
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const results = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  if (results[0]) {
+    return results[0];
+  }
+
+  const now = new Date();
+  return {
+    userId,
+    oneRepMaxFormula: DEFAULT_ONE_REP_MAX_FORMULA,
+    excludeWarmupSets: true,
+    useEffortForOneRepMax: false,
+    weightUnit: DEFAULT_WEIGHT_UNIT,
+    plateSetup: null,
+    warmupScheme: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Create or update the settings for a specific user
+ * SECURITY: Always associates settings with the provided userId
+ */
+export async function updateUserSettings(
+  userId: string,
+  data: {
+    oneRepMaxFormula?: OneRepMaxFormula;
+    excludeWarmupSets?: boolean;
+    useEffortForOneRepMax?: boolean;
+    weightUnit?: WeightUnit;
+    plateSetup?: PlateSetup | null;
+    warmupScheme?: WarmupStep[] | null;
+  }
+) {
+  const results = await db
+    .insert(userSettings)
+    .values({
+      userId,
+      ...data,
+    })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: {
+        ...data,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return results[0];
+}
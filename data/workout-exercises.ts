@@ -1,8 +1,19 @@
 import { db } from "@/src/db";
-import { workoutExercises, workouts, exercises, sets } from "@/src/db/schema";
-import { eq, and, max } from "drizzle-orm";
+import { workoutExercises, workouts, exercises, sets, prescribedSets } from "@/src/db/schema";
+import { eq, and, max, desc, asc, inArray, lt } from "drizzle-orm";
 import { getWorkoutByIdForUser } from "./workouts";
-import type { Set } from "@/types/workout";
+import {
+  toExerciseBlocks,
+  type ExerciseGroupFields,
+  type ExerciseGroupType,
+} from "@/lib/utils/exercise-groups";
+import { hasLoadAndReps } from "@/lib/utils/set-metrics";
+import type {
+  Set,
+  ExerciseHistoryEntry,
+  WorkoutExercise,
+  WorkoutExerciseWithDetails,
+} from "@/types/workout";
 
 /**
  * Get all workout exercises with their details (exercise info and sets) for a specific workout
@@ -38,6 +49,7 @@ export async function getWorkoutExercisesWithSets(
         ...row.workout_exercises,
         exercise: row.exercises!,
         sets: [],
+        prescribedSets: [],
       });
     }
 
@@ -51,9 +63,168 @@ export async function getWorkoutExercisesWithSets(
     exercise.sets.sort((a: Set, b: Set) => a.setNumber - b.setNumber);
   }
 
+  // Attach the prescribed sets (targets from a training program)
+  if (exerciseMap.size > 0) {
+    const prescribed = await db
+      .select()
+      .from(prescribedSets)
+      .where(inArray(prescribedSets.workoutExerciseId, Array.from(exerciseMap.keys())))
+      .orderBy(asc(prescribedSets.setNumber));
+
+    for (const prescribedSet of prescribed) {
+      exerciseMap.get(prescribedSet.workoutExerciseId).prescribedSets.push(prescribedSet);
+    }
+  }
+
   return Array.from(exerciseMap.values());
 }
 
+/**
+ * Get every workout in which the user performed an exercise, with the sets logged
+ * Sessions are ordered by workout start time (most recent first)
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getExerciseHistoryForUser(
+  userId: string,
+  exerciseId: number
+): Promise<ExerciseHistoryEntry[]> {
+  const results = await db
+    .select()
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .leftJoin(sets, eq(workoutExercises.id, sets.workoutExerciseId))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        eq(workoutExercises.exerciseId, exerciseId)
+      )
+    )
+    .orderBy(desc(workouts.startedAt), workoutExercises.order);
+
+  // Group sets by workout exercise, keeping the query order
+  const historyMap = new Map<number, ExerciseHistoryEntry>();
+
+  for (const row of results) {
+    const workoutExerciseId = row.workout_exercises.id;
+
+    if (!historyMap.has(workoutExerciseId)) {
+      historyMap.set(workoutExerciseId, {
+        workout: row.workouts,
+        workoutExercise: row.workout_exercises,
+        sets: [],
+      });
+    }
+
+    if (row.sets) {
+      historyMap.get(workoutExerciseId)!.sets.push(row.sets);
+    }
+  }
+
+  // Sort sets by set number for each session
+  for (const entry of historyMap.values()) {
+    entry.sets.sort((a: Set, b: Set) => a.setNumber - b.setNumber);
+  }
+
+  return Array.from(historyMap.values());
+}
+
+/**
+ * Get, for each exercise, the sets logged in the user's most recent earlier workout with it
+ * "Earlier" means started before the given workout; sessions without sets are skipped
+ * SECURITY: Validates workout ownership and filters history by userId
+ */
+export async function getPreviousSessionsForExercises(
+  userId: string,
+  workoutId: number,
+  exerciseIds: number[]
+): Promise<ExerciseHistoryEntry[]> {
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout || exerciseIds.length === 0) {
+    return [];
+  }
+
+  // The latest earlier session with logged sets, one per exercise
+  const sessions = await db
+    .selectDistinctOn([workoutExercises.exerciseId], {
+      workout: workouts,
+      workoutExercise: workoutExercises,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(sets, eq(workoutExercises.id, sets.workoutExerciseId))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workoutExercises.exerciseId, exerciseIds),
+        lt(workouts.startedAt, workout.startedAt)
+      )
+    )
+    .orderBy(
+      workoutExercises.exerciseId,
+      desc(workouts.startedAt),
+      asc(workoutExercises.order)
+    );
+
+  if (sessions.length === 0) {
+    return [];
+  }
+
+  const previousSets = await db
+    .select()
+    .from(sets)
+    .where(
+      inArray(
+        sets.workoutExerciseId,
+        sessions.map((session) => session.workoutExercise.id)
+      )
+    )
+    .orderBy(asc(sets.setNumber));
+
+  return sessions.map((session) => ({
+    ...session,
+    sets: previousSets.filter(
+      (set) => set.workoutExerciseId === session.workoutExercise.id
+    ),
+  }));
+}
+
+/**
+ * Get the distinct exercise IDs used in a workout
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getExerciseIdsForWorkout(
+  userId: string,
+  workoutId: number
+) {
+  const results = await db
+    .selectDistinct({ exerciseId: workoutExercises.exerciseId })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        eq(workoutExercises.workoutId, workoutId)
+      )
+    );
+
+  return results.map((row) => row.exerciseId);
+}
+
+/**
+ * Get the distinct exercise IDs the user has ever added to a workout
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getTrainedExerciseIdsForUser(userId: string) {
+  const results = await db
+    .selectDistinct({ exerciseId: workoutExercises.exerciseId })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(eq(workouts.userId, userId));
+
+  return results.map((row) => row.exerciseId);
+}
+
 /**
  * Add an exercise to a workout
  * SECURITY: Validates workout ownership via userId before adding
@@ -62,6 +233,23 @@ export async function addExerciseToWorkout(
   userId: string,
   workoutId: number,
   exerciseId: number
+) {
+  const results = await addExercisesToWorkout(userId, workoutId, [exerciseId]);
+
+  return results[0];
+}
+
+/**
+ * Append several exercises to the end of a workout, keeping the given order
+ * groups optionally gives each exercise's group (e.g. from a template); group
+ * numbers are shifted past the groups already in the workout
+ * SECURITY: Validates workout ownership via userId before adding
+ */
+export async function addExercisesToWorkout(
+  userId: string,
+  workoutId: number,
+  exerciseIds: number[],
+  groups: ExerciseGroupFields[] = []
 ) {
   // First verify the workout belongs to the user
   const workout = await getWorkoutByIdForUser(userId, workoutId);
@@ -69,24 +257,306 @@ export async function addExerciseToWorkout(
     throw new Error("Workout not found or access denied");
   }
 
-  // Get the max order number for this workout to append at the end
+  if (exerciseIds.length === 0) {
+    return [];
+  }
+
+  // Get the max order and group numbers for this workout to append at the end
   const maxOrderResult = await db
-    .select({ maxOrder: max(workoutExercises.order) })
+    .select({
+      maxOrder: max(workoutExercises.order),
+      maxGroupNumber: max(workoutExercises.groupNumber),
+    })
     .from(workoutExercises)
     .where(eq(workoutExercises.workoutId, workoutId));
 
   const nextOrder = (maxOrderResult[0]?.maxOrder ?? -1) + 1;
+  const groupNumberOffset = maxOrderResult[0]?.maxGroupNumber ?? 0;
 
-  const results = await db
+  return await db
     .insert(workoutExercises)
-    .values({
-      workoutId,
-      exerciseId,
-      order: nextOrder,
-    })
+    .values(
+      exerciseIds.map((exerciseId, index) => {
+        const group = groups[index];
+        const isGrouped = group !== undefined && group.groupNumber !== null;
+        return {
+          workoutId,
+          exerciseId,
+          order: nextOrder + index,
+          groupNumber: isGrouped ? group.groupNumber! + groupNumberOffset : null,
+          groupType: isGrouped ? group.groupType : null,
+        };
+      })
+    )
     .returning();
+}
 
-  return results[0];
+/**
+ * Copy the exercises of one workout, in order and with their groups, into another
+ * With copySetsAsTargets the working sets logged in the source become the
+ * prescribed sets (targets) of the copy; warm-ups and sets without weight and reps are left out
+ * SECURITY: Validates ownership of both workouts via userId before copying
+ */
+export async function copyWorkoutExercises(
+  userId: string,
+  sourceWorkoutId: number,
+  targetWorkoutId: number,
+  options: { copySetsAsTargets: boolean }
+) {
+  const sourceExercises: WorkoutExerciseWithDetails[] | null =
+    await getWorkoutExercisesWithSets(userId, sourceWorkoutId);
+  if (sourceExercises === null) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  // Helper validates ownership of the target workout
+  const added = await addExercisesToWorkout(
+    userId,
+    targetWorkoutId,
+    sourceExercises.map((workoutExercise) => workoutExercise.exerciseId),
+    sourceExercises
+  );
+
+  if (!options.copySetsAsTargets) {
+    return added;
+  }
+
+  const targets = sourceExercises.flatMap((workoutExercise, index) =>
+    workoutExercise.sets
+      .filter(hasLoadAndReps)
+      .filter((set) => set.setType !== "warmup")
+      .map((set, setIndex) => ({
+        workoutExerciseId: added[index].id,
+        setNumber: setIndex + 1,
+        weightKg: set.weightKg,
+        reps: set.reps,
+        isAmrap: set.setType === "amrap",
+      }))
+  );
+
+  await addPrescribedSetsToWorkout(userId, targetWorkoutId, targets);
+
+  return added;
+}
+
+/**
+ * Add prescribed sets (targets) to exercises of a workout
+ * SECURITY: Validates workout ownership via userId and that every target belongs to the workout
+ */
+export async function addPrescribedSetsToWorkout(
+  userId: string,
+  workoutId: number,
+  targets: {
+    workoutExerciseId: number;
+    setNumber: number;
+    weightKg: string;
+    reps: number;
+    isAmrap: boolean;
+  }[]
+) {
+  if (targets.length === 0) {
+    return [];
+  }
+
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  const workoutExerciseIds = [
+    ...new Set(targets.map((target) => target.workoutExerciseId)),
+  ];
+  const ownedExercises = await db
+    .select({ id: workoutExercises.id })
+    .from(workoutExercises)
+    .where(
+      and(
+        eq(workoutExercises.workoutId, workoutId),
+        inArray(workoutExercises.id, workoutExerciseIds)
+      )
+    );
+
+  if (ownedExercises.length !== workoutExerciseIds.length) {
+    throw new Error("Workout exercise not found or access denied");
+  }
+
+  return await db.insert(prescribedSets).values(targets).returning();
+}
+
+/**
+ * Link exercises of a workout into a superset, giant set or circuit
+ * Members are moved next to the first of them so the group stays contiguous
+ * SECURITY: Validates workout ownership via userId before updating
+ */
+export async function groupWorkoutExercises(
+  userId: string,
+  workoutId: number,
+  workoutExerciseIds: number[],
+  groupType: ExerciseGroupType
+) {
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  const rows = await db
+    .select()
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId))
+    .orderBy(asc(workoutExercises.order));
+
+  const memberIds = new Set(workoutExerciseIds);
+  const members = rows.filter((row) => memberIds.has(row.id));
+
+  if (members.length !== memberIds.size) {
+    throw new Error("Workout exercise not found or access denied");
+  }
+
+  if (members.some((member) => member.groupNumber !== null)) {
+    throw new Error("An exercise can only be in one group");
+  }
+
+  const groupNumber =
+    Math.max(0, ...rows.map((row) => row.groupNumber ?? 0)) + 1;
+
+  // Insert the members where the first of them was
+  const others = rows.filter((row) => !memberIds.has(row.id));
+  const insertAt = others.filter((row) => row.order < members[0].order).length;
+  const ordered = [...others.slice(0, insertAt), ...members, ...others.slice(insertAt)];
+
+  await writeWorkoutExerciseOrder(ordered, (row) =>
+    memberIds.has(row.id) ? { groupNumber, groupType } : {}
+  );
+
+  return groupNumber;
+}
+
+/**
+ * Rewrite the order of every exercise in a workout
+ * workoutExerciseIds must list each exercise of the workout exactly once, with
+ * the members of each group next to each other
+ * SECURITY: Validates workout ownership via userId before updating
+ */
+export async function reorderWorkoutExercises(
+  userId: string,
+  workoutId: number,
+  workoutExerciseIds: number[]
+) {
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  const rows = await db
+    .select()
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId));
+
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const ordered = workoutExerciseIds.map((id) => rowsById.get(id));
+
+  if (
+    new Set(workoutExerciseIds).size !== rows.length ||
+    ordered.length !== rows.length ||
+    ordered.some((row) => row === undefined)
+  ) {
+    throw new Error("The new order must include every exercise in the workout exactly once");
+  }
+
+  const orderedRows = ordered.map((row) => row!);
+  const groupBlocks = toExerciseBlocks(orderedRows).filter((block) => block.groupNumber !== null);
+  if (new Set(groupBlocks.map((block) => block.groupNumber)).size !== groupBlocks.length) {
+    throw new Error("Grouped exercises must stay together");
+  }
+
+  await writeWorkoutExerciseOrder(orderedRows);
+
+  return orderedRows;
+}
+
+/**
+ * Write the position of every exercise of a workout, plus any per-row changes
+ * Runs as one batch so the workout is never left half reordered
+ */
+async function writeWorkoutExerciseOrder(
+  ordered: WorkoutExercise[],
+  getChanges: (row: WorkoutExercise) => Partial<ExerciseGroupFields> = () => ({})
+) {
+  if (ordered.length === 0) {
+    return;
+  }
+
+  const [first, ...rest] = ordered.map((row, index) =>
+    db
+      .update(workoutExercises)
+      .set({ order: index, ...getChanges(row) })
+      .where(eq(workoutExercises.id, row.id))
+  );
+
+  await db.batch([first, ...rest]);
+}
+
+/**
+ * Split a group of a workout back into individual exercises
+ * SECURITY: Validates workout ownership via userId before updating
+ */
+export async function ungroupWorkoutExercises(
+  userId: string,
+  workoutId: number,
+  groupNumber: number
+) {
+  // First verify the workout belongs to the user
+  const workout = await getWorkoutByIdForUser(userId, workoutId);
+  if (!workout) {
+    throw new Error("Workout not found or access denied");
+  }
+
+  return await db
+    .update(workoutExercises)
+    .set({ groupNumber: null, groupType: null })
+    .where(
+      and(
+        eq(workoutExercises.workoutId, workoutId),
+        eq(workoutExercises.groupNumber, groupNumber)
+      )
+    )
+    .returning();
+}
+
+/**
+ * Update the notes of an exercise within a workout
+ * SECURITY: Validates workout ownership via userId before updating
+ */
+export async function updateWorkoutExerciseNotes(
+  userId: string,
+  workoutExerciseId: number,
+  notes: string | null
+) {
+  // First, get the workout exercise to verify ownership
+  const workoutExerciseResult = await db
+    .select({ workout: workouts })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(eq(workoutExercises.id, workoutExerciseId))
+    .limit(1);
+
+  if (
+    !workoutExerciseResult[0] ||
+    workoutExerciseResult[0].workout.userId !== userId
+  ) {
+    throw new Error("Workout exercise not found or access denied");
+  }
+
+  const results = await db
+    .update(workoutExercises)
+    .set({ notes })
+    .where(eq(workoutExercises.id, workoutExerciseId))
+    .returning();
+
+  return results[0] || null;
 }
 
 /**
@@ -120,5 +590,27 @@ export async function removeExerciseFromWorkout(
     .where(eq(workoutExercises.id, workoutExerciseId))
     .returning();
 
+  // A group left with a single exercise is no longer a group
+  const { workoutExercise } = workoutExerciseResult[0];
+  if (workoutExercise.groupNumber !== null) {
+    const remaining = await db
+      .select({ id: workoutExercises.id })
+      .from(workoutExercises)
+      .where(
+        and(
+          eq(workoutExercises.workoutId, workoutExercise.workoutId),
+          eq(workoutExercises.groupNumber, workoutExercise.groupNumber)
+        )
+      );
+
+    if (remaining.length === 1) {
+      await ungroupWorkoutExercises(
+        userId,
+        workoutExercise.workoutId,
+        workoutExercise.groupNumber
+      );
+    }
+  }
+
   return results[0] || null;
 }
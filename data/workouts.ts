@@ -1,6 +1,6 @@
 import { db } from '@/src/db';
-import { workouts } from '@/src/db/schema';
-import { eq, and, lte, gte, or, isNull } from 'drizzle-orm';
+import { workouts, workoutExercises, sets } from '@/src/db/schema';
+import { eq, and, lte, gte, or, isNull, isNotNull, ilike, inArray, desc } from 'drizzle-orm';
 
 /**
  * Get all workouts for a specific user
@@ -43,6 +43,54 @@ export async function getWorkoutsForUserOnDate(userId: string, startOfDay: Date,
     .orderBy(workouts.startedAt);
 }
 
+/**
+ * Get a user's workouts, most recent first, optionally filtered by a search term
+ * The search matches the workout name and notes on the workout, its exercises and its sets
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getWorkoutHistoryForUser(
+  userId: string,
+  options: {
+    search?: string | null;
+    limit: number;
+  }
+) {
+  const conditions = [eq(workouts.userId, userId)];
+
+  const search = options.search?.trim();
+  if (search) {
+    // Treat LIKE wildcards in the search term literally
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const exerciseNoteMatches = db
+      .select({ workoutId: workoutExercises.workoutId })
+      .from(workoutExercises)
+      .where(ilike(workoutExercises.notes, pattern));
+
+    const setNoteMatches = db
+      .select({ workoutId: workoutExercises.workoutId })
+      .from(sets)
+      .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+      .where(ilike(sets.notes, pattern));
+
+    conditions.push(
+      or(
+        ilike(workouts.name, pattern),
+        ilike(workouts.notes, pattern),
+        inArray(workouts.id, exerciseNoteMatches),
+        inArray(workouts.id, setNoteMatches)
+      )!
+    );
+  }
+
+  return await db
+    .select()
+    .from(workouts)
+    .where(and(...conditions))
+    .orderBy(desc(workouts.startedAt))
+    .limit(options.limit);
+}
+
 /**
  * Get a single workout by ID for a specific user
  * SECURITY: Always filters by userId to ensure data isolation
@@ -62,6 +110,29 @@ export async function getWorkoutByIdForUser(userId: string, workoutId: number) {
   return results[0] || null;
 }
 
+/**
+ * Get the bodyweight recorded on the user's most recent workout
+ * Scheduled program workouts can be in the future, so only workouts that have
+ * already started count
+ * SECURITY: Always filters by userId to ensure data isolation
+ */
+export async function getLatestBodyweightForUser(userId: string) {
+  const results = await db
+    .select({ bodyweightKg: workouts.bodyweightKg })
+    .from(workouts)
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        isNotNull(workouts.bodyweightKg),
+        lte(workouts.startedAt, new Date())
+      )
+    )
+    .orderBy(desc(workouts.startedAt))
+    .limit(1);
+
+  return results[0]?.bodyweightKg ?? null;
+}
+
 /**
  * Create a new workout for a specific user
  * SECURITY: Always associates workout with the provided userId
@@ -72,8 +143,18 @@ export async function createWorkoutForUser(
     name: string;
     startedAt: Date;
     completedAt?: Date | null;
+    programEnrollmentId?: number | null;
+    programWeek?: number | null;
+    programDay?: number | null;
+    bodyweightKg?: number | null;
   }
 ) {
+  // Carry the most recent bodyweight forward unless one is given
+  const bodyweightKg =
+    data.bodyweightKg !== undefined
+      ? data.bodyweightKg
+      : await getLatestBodyweightForUser(userId);
+
   const results = await db
     .insert(workouts)
     .values({
@@ -81,6 +162,10 @@ export async function createWorkoutForUser(
       name: data.name,
       startedAt: data.startedAt,
       completedAt: data.completedAt || null,
+      programEnrollmentId: data.programEnrollmentId ?? null,
+      programWeek: data.programWeek ?? null,
+      programDay: data.programDay ?? null,
+      bodyweightKg,
     })
     .returning();
 
@@ -98,6 +183,8 @@ export async function updateWorkoutForUser(
     name?: string;
     startedAt?: Date;
     completedAt?: Date | null;
+    bodyweightKg?: number | null;
+    notes?: string | null;
   }
 ) {
   const results = await db
@@ -0,0 +1,6 @@
+CREATE TABLE "user_settings" (
+	"user_id" varchar(255) PRIMARY KEY NOT NULL,
+	"one_rep_max_formula" varchar(32) DEFAULT 'epley' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,24 @@
+CREATE TABLE "prescribed_sets" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "prescribed_sets_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"workout_exercise_id" integer NOT NULL,
+	"set_number" integer NOT NULL,
+	"weight_kg" numeric(6, 2) NOT NULL,
+	"reps" integer NOT NULL,
+	"is_amrap" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "program_enrollments" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "program_enrollments_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_id" varchar(255) NOT NULL,
+	"program_id" varchar(64) NOT NULL,
+	"start_date" timestamp with time zone NOT NULL,
+	"inputs" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "program_enrollment_id" integer;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "program_week" integer;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "program_day" integer;--> statement-breakpoint
+ALTER TABLE "prescribed_sets" ADD CONSTRAINT "prescribed_sets_workout_exercise_id_workout_exercises_id_fk" FOREIGN KEY ("workout_exercise_id") REFERENCES "public"."workout_exercises"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workouts" ADD CONSTRAINT "workouts_program_enrollment_id_program_enrollments_id_fk" FOREIGN KEY ("program_enrollment_id") REFERENCES "public"."program_enrollments"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "user_exercise_settings" (
+	"user_id" varchar(255) NOT NULL,
+	"exercise_id" integer NOT NULL,
+	"rest_seconds" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "user_exercise_settings_user_id_exercise_id_pk" PRIMARY KEY("user_id","exercise_id")
+);
+--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "rest_seconds" integer;--> statement-breakpoint
+ALTER TABLE "user_exercise_settings" ADD CONSTRAINT "user_exercise_settings_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
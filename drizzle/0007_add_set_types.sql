@@ -0,0 +1,2 @@
+ALTER TABLE "sets" ADD COLUMN "set_type" varchar(16) DEFAULT 'working' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "exclude_warmup_sets" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "sets" ADD COLUMN "rpe" numeric(3, 1);--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "rir" integer;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "use_effort_for_one_rep_max" boolean DEFAULT false NOT NULL;
\ No newline at end of file
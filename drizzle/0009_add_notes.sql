@@ -0,0 +1,3 @@
+ALTER TABLE "sets" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "workout_exercises" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "notes" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user_exercise_settings" ADD COLUMN "load_mode" varchar(16) DEFAULT 'external' NOT NULL;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "bodyweight_kg" numeric(5, 2);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "personal_records" ALTER COLUMN "value" SET DATA TYPE numeric(12, 4);--> statement-breakpoint
+ALTER TABLE "personal_records" ALTER COLUMN "weight_kg" SET DATA TYPE numeric(8, 4);--> statement-breakpoint
+ALTER TABLE "prescribed_sets" ALTER COLUMN "weight_kg" SET DATA TYPE numeric(8, 4);--> statement-breakpoint
+ALTER TABLE "sets" ALTER COLUMN "weight_kg" SET DATA TYPE numeric(8, 4);--> statement-breakpoint
+ALTER TABLE "workouts" ALTER COLUMN "bodyweight_kg" SET DATA TYPE numeric(7, 4);--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "weight_unit" varchar(2) DEFAULT 'kg' NOT NULL;
\ No newline at end of file
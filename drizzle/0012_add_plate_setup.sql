@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ADD COLUMN "plate_setup" jsonb;
\ No newline at end of file
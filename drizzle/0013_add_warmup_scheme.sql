@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ADD COLUMN "warmup_scheme" jsonb;
\ No newline at end of file
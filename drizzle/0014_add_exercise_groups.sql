@@ -0,0 +1,4 @@
+ALTER TABLE "template_exercises" ADD COLUMN "group_number" integer;--> statement-breakpoint
+ALTER TABLE "template_exercises" ADD COLUMN "group_type" varchar(16);--> statement-breakpoint
+ALTER TABLE "workout_exercises" ADD COLUMN "group_number" integer;--> statement-breakpoint
+ALTER TABLE "workout_exercises" ADD COLUMN "group_type" varchar(16);
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Migration: Renumber existing sets before enforcing unique set numbers
+-- Sets logged from stale tabs or after deletes may have duplicate or skipped
+-- numbers; renumber each workout exercise's sets 1, 2, 3... keeping their order
+-- (ties broken by creation order)
+UPDATE "sets" SET "set_number" = "renumbered"."set_number"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (
+    PARTITION BY "workout_exercise_id" ORDER BY "set_number", "created_at", "id"
+  ) AS "set_number"
+  FROM "sets"
+) AS "renumbered"
+WHERE "sets"."id" = "renumbered"."id" AND "sets"."set_number" <> "renumbered"."set_number";--> statement-breakpoint
+ALTER TABLE "sets" ADD CONSTRAINT "sets_workout_exercise_set_number_unique" UNIQUE("workout_exercise_id","set_number");
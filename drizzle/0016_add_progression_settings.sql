@@ -0,0 +1 @@
+ALTER TABLE "user_exercise_settings" ADD COLUMN "progression" jsonb;
\ No newline at end of file
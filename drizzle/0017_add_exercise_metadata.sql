@@ -0,0 +1,5 @@
+ALTER TABLE "exercises" ADD COLUMN "primary_muscle" varchar(32);--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "secondary_muscles" varchar(32)[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "equipment" varchar(32);--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "movement_pattern" varchar(32);--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "is_compound" boolean;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Migration: Let users own private exercises alongside the global catalog
+-- Existing exercises keep user_id null and stay in the global catalog, since
+-- the user who first typed each name was not recorded
+ALTER TABLE "exercises" DROP CONSTRAINT "exercises_name_unique";--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "user_id" varchar(255);--> statement-breakpoint
+CREATE UNIQUE INDEX "exercises_global_name_unique" ON "exercises" USING btree ("name") WHERE "exercises"."user_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "exercises_user_name_unique" ON "exercises" USING btree ("user_id","name");
\ No newline at end of file
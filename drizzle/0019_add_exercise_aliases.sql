@@ -0,0 +1,30 @@
+-- Migration: Match exercise names regardless of case and spacing, and add aliases
+-- Exercises whose names only differ by case or spacing already exist as separate
+-- rows; the oldest keeps the plain key and the others get their id appended, so
+-- no history is lost and the new unique indexes can be created
+CREATE TABLE "exercise_aliases" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "exercise_aliases_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"exercise_id" integer NOT NULL,
+	"user_id" varchar(255),
+	"alias" varchar(255) NOT NULL,
+	"normalized_alias" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "exercises_global_name_unique";--> statement-breakpoint
+DROP INDEX "exercises_user_name_unique";--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "normalized_name" varchar(255);--> statement-breakpoint
+UPDATE "exercises" SET "normalized_name" = lower(btrim(regexp_replace("name", '\s+', ' ', 'g')));--> statement-breakpoint
+UPDATE "exercises" AS "e" SET "normalized_name" = "e"."normalized_name" || ' #' || "e"."id"
+WHERE EXISTS (
+	SELECT 1 FROM "exercises" AS "o"
+	WHERE "o"."normalized_name" = "e"."normalized_name"
+		AND "o"."user_id" IS NOT DISTINCT FROM "e"."user_id"
+		AND "o"."id" < "e"."id"
+);--> statement-breakpoint
+ALTER TABLE "exercises" ALTER COLUMN "normalized_name" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "exercise_aliases" ADD CONSTRAINT "exercise_aliases_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "exercise_aliases_global_unique" ON "exercise_aliases" USING btree ("normalized_alias") WHERE "exercise_aliases"."user_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "exercise_aliases_user_unique" ON "exercise_aliases" USING btree ("user_id","normalized_alias");--> statement-breakpoint
+CREATE UNIQUE INDEX "exercises_global_name_unique" ON "exercises" USING btree ("normalized_name") WHERE "exercises"."user_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "exercises_user_name_unique" ON "exercises" USING btree ("user_id","normalized_name");
\ No newline at end of file
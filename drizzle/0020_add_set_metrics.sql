@@ -0,0 +1,8 @@
+-- Migration: Let each exercise choose which metrics its sets record
+-- Existing exercises and sets keep tracking weight and reps; run `npm run db:seed`
+-- to apply the catalog's metrics (e.g. time for planks, distance for carries)
+ALTER TABLE "sets" ALTER COLUMN "weight_kg" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "sets" ALTER COLUMN "reps" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "metrics" varchar(16)[] DEFAULT '{"weight","reps"}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "distance_meters" numeric(10, 2);
\ No newline at end of file
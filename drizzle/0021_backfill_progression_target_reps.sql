@@ -0,0 +1,6 @@
+-- Migration: Give linear progression a target rep count
+-- Progression settings saved before this change have no targetReps; they get the
+-- default of 5 and can be changed in the exercise settings
+UPDATE "user_exercise_settings"
+SET "progression" = "progression" || '{"targetReps": 5}'::jsonb
+WHERE "progression" IS NOT NULL AND NOT ("progression" ? 'targetReps');
@@ -0,0 +1,12 @@
+import { currentUser } from '@clerk/nextjs/server'
+
+/**
+ * Whether the signed-in user is an admin
+ * Admins are marked with `{ "role": "admin" }` in their Clerk public metadata,
+ * which is set from the Clerk dashboard
+ * @returns False when signed out or not an admin
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  const user = await currentUser()
+  return user?.publicMetadata.role === 'admin'
+}
@@ -1,4 +1,4 @@
-import { format, differenceInMinutes } from 'date-fns'
+import { format, differenceInMinutes, subDays, subMonths, subYears } from 'date-fns'
 
 /**
  * Formats a date to the project standard: "1st Sep 2025"
@@ -9,6 +9,15 @@ export function formatDate(date: Date | number): string {
   return format(date, 'do MMM yyyy')
 }
 
+/**
+ * Formats a date without the year for tight spaces such as chart axes: "1st Sep"
+ * @param date - Date object or timestamp
+ * @returns Formatted date string (e.g., "1st Sep")
+ */
+export function formatShortDate(date: Date | number): string {
+  return format(date, 'do MMM')
+}
+
 /**
  * Formats a date to time format: "08:00 AM"
  * @param date - Date object or timestamp
@@ -45,3 +54,50 @@ export function formatDuration(minutes: number): string {
   }
   return `${hours}h ${remainingMinutes}min`
 }
+
+/**
+ * Date ranges available for progress charts
+ */
+export const progressRanges = ['30d', '90d', '6m', '1y', 'all'] as const
+
+export type ProgressRange = (typeof progressRanges)[number]
+
+export const DEFAULT_PROGRESS_RANGE: ProgressRange = '90d'
+
+export const progressRangeLabels: Record<ProgressRange, string> = {
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '6m': 'Last 6 months',
+  '1y': 'Last year',
+  all: 'All time',
+}
+
+/**
+ * Parses a progress range from a search param
+ * @param value - Raw search param value
+ * @returns A valid progress range, falling back to the default
+ */
+export function parseProgressRange(value?: string | null): ProgressRange {
+  return progressRanges.find((range) => range === value) ?? DEFAULT_PROGRESS_RANGE
+}
+
+/**
+ * Calculates the first date included in a progress range
+ * @param range - Progress range
+ * @param now - Reference date (optional, defaults to current time)
+ * @returns Start date, or null when the range covers all time
+ */
+export function getProgressRangeStart(range: ProgressRange, now: Date = new Date()): Date | null {
+  switch (range) {
+    case '30d':
+      return subDays(now, 30)
+    case '90d':
+      return subDays(now, 90)
+    case '6m':
+      return subMonths(now, 6)
+    case '1y':
+      return subYears(now, 1)
+    case 'all':
+      return null
+  }
+}
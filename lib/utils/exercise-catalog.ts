@@ -0,0 +1,252 @@
+import { DEFAULT_SET_METRICS, type SetMetric } from '@/lib/utils/set-metrics'
+
+/**
+ * Muscle groups an exercise can train
+ */
+export const muscleGroups = [
+  'chest',
+  'back',
+  'traps',
+  'shoulders',
+  'biceps',
+  'triceps',
+  'forearms',
+  'abs',
+  'lower_back',
+  'glutes',
+  'quads',
+  'hamstrings',
+  'calves',
+] as const
+
+export type MuscleGroup = (typeof muscleGroups)[number]
+
+export const muscleGroupLabels: Record<MuscleGroup, string> = {
+  chest: 'Chest',
+  back: 'Back',
+  traps: 'Traps',
+  shoulders: 'Shoulders',
+  biceps: 'Biceps',
+  triceps: 'Triceps',
+  forearms: 'Forearms',
+  abs: 'Abs',
+  lower_back: 'Lower Back',
+  glutes: 'Glutes',
+  quads: 'Quads',
+  hamstrings: 'Hamstrings',
+  calves: 'Calves',
+}
+
+/**
+ * Equipment an exercise is performed with
+ */
+export const equipmentTypes = [
+  'barbell',
+  'dumbbell',
+  'kettlebell',
+  'machine',
+  'cable',
+  'bodyweight',
+  'band',
+  'other',
+] as const
+
+export type Equipment = (typeof equipmentTypes)[number]
+
+export const equipmentLabels: Record<Equipment, string> = {
+  barbell: 'Barbell',
+  dumbbell: 'Dumbbell',
+  kettlebell: 'Kettlebell',
+  machine: 'Machine',
+  cable: 'Cable',
+  bodyweight: 'Bodyweight',
+  band: 'Band',
+  other: 'Other',
+}
+
+/**
+ * Movement patterns; single-joint accessories that fit none of them are "other"
+ */
+export const movementPatterns = [
+  'squat',
+  'hinge',
+  'lunge',
+  'horizontal_push',
+  'vertical_push',
+  'horizontal_pull',
+  'vertical_pull',
+  'carry',
+  'core',
+  'other',
+] as const
+
+export type MovementPattern = (typeof movementPatterns)[number]
+
+export const movementPatternLabels: Record<MovementPattern, string> = {
+  squat: 'Squat',
+  hinge: 'Hinge',
+  lunge: 'Lunge',
+  horizontal_push: 'Horizontal Push',
+  vertical_push: 'Vertical Push',
+  horizontal_pull: 'Horizontal Pull',
+  vertical_pull: 'Vertical Pull',
+  carry: 'Carry',
+  core: 'Core',
+  other: 'Other',
+}
+
+/**
+ * Descriptive attributes of an exercise (null where unknown, e.g. custom exercises)
+ */
+export type ExerciseMetadata = {
+  primaryMuscle: MuscleGroup | null
+  secondaryMuscles: MuscleGroup[]
+  equipment: Equipment | null
+  movementPattern: MovementPattern | null
+  isCompound: boolean | null
+}
+
+export type CatalogExercise = ExerciseMetadata & {
+  name: string
+  aliases: string[] // Other names the exercise is known by
+  metrics: SetMetric[] // What each set records
+}
+
+function entry(
+  name: string,
+  primaryMuscle: MuscleGroup,
+  secondaryMuscles: MuscleGroup[],
+  equipment: Equipment,
+  movementPattern: MovementPattern,
+  isCompound: boolean,
+  { aliases = [], metrics = DEFAULT_SET_METRICS }: { aliases?: string[]; metrics?: SetMetric[] } = {}
+): CatalogExercise {
+  return { name, primaryMuscle, secondaryMuscles, equipment, movementPattern, isCompound, aliases, metrics }
+}
+
+/**
+ * Standard exercise catalog seeded by `npm run db:seed`
+ * Names match the exercises created by the built-in programs
+ */
+export const exerciseCatalog: CatalogExercise[] = [
+  // Squat and lunge patterns
+  entry('Squat', 'quads', ['glutes', 'hamstrings', 'lower_back'], 'barbell', 'squat', true, { aliases: ['Back Squat', 'Barbell Squat'] }),
+  entry('Front Squat', 'quads', ['glutes', 'abs'], 'barbell', 'squat', true),
+  entry('Goblet Squat', 'quads', ['glutes'], 'dumbbell', 'squat', true),
+  entry('Leg Press', 'quads', ['glutes', 'hamstrings'], 'machine', 'squat', true),
+  entry('Bulgarian Split Squat', 'quads', ['glutes', 'hamstrings'], 'dumbbell', 'lunge', true, { aliases: ['BSS', 'Rear Foot Elevated Split Squat'] }),
+  entry('Walking Lunge', 'quads', ['glutes', 'hamstrings'], 'dumbbell', 'lunge', true),
+  entry('Leg Extension', 'quads', [], 'machine', 'other', false),
+
+  // Hinge pattern
+  entry('Deadlift', 'hamstrings', ['glutes', 'lower_back', 'back', 'traps', 'forearms'], 'barbell', 'hinge', true, { aliases: ['DL', 'Conventional Deadlift'] }),
+  entry('Romanian Deadlift', 'hamstrings', ['glutes', 'lower_back'], 'barbell', 'hinge', true, { aliases: ['RDL'] }),
+  entry('Hip Thrust', 'glutes', ['hamstrings'], 'barbell', 'hinge', true, { aliases: ['Barbell Hip Thrust'] }),
+  entry('Kettlebell Swing', 'glutes', ['hamstrings', 'lower_back'], 'kettlebell', 'hinge', true),
+  entry('Back Extension', 'lower_back', ['glutes', 'hamstrings'], 'bodyweight', 'hinge', false),
+  entry('Lying Leg Curl', 'hamstrings', [], 'machine', 'other', false, { aliases: ['Leg Curl', 'Hamstring Curl'] }),
+
+  // Pushing
+  entry('Bench Press', 'chest', ['triceps', 'shoulders'], 'barbell', 'horizontal_push', true, { aliases: ['BP', 'Flat Bench', 'Barbell Bench Press'] }),
+  entry('Incline Bench Press', 'chest', ['shoulders', 'triceps'], 'barbell', 'horizontal_push', true, { aliases: ['Incline Bench'] }),
+  entry('Dumbbell Bench Press', 'chest', ['triceps', 'shoulders'], 'dumbbell', 'horizontal_push', true, { aliases: ['DB Bench Press', 'DB Bench'] }),
+  entry('Push-up', 'chest', ['triceps', 'shoulders', 'abs'], 'bodyweight', 'horizontal_push', true),
+  entry('Dip', 'chest', ['triceps', 'shoulders'], 'bodyweight', 'vertical_push', true, { aliases: ['Chest Dip', 'Parallel Bar Dip'] }),
+  entry('Overhead Press', 'shoulders', ['triceps', 'traps'], 'barbell', 'vertical_push', true, { aliases: ['OHP', 'Military Press'] }),
+  entry('Dumbbell Shoulder Press', 'shoulders', ['triceps'], 'dumbbell', 'vertical_push', true, { aliases: ['DB Shoulder Press'] }),
+  entry('Cable Fly', 'chest', ['shoulders'], 'cable', 'other', false),
+  entry('Lateral Raise', 'shoulders', [], 'dumbbell', 'other', false),
+  entry('Triceps Pushdown', 'triceps', [], 'cable', 'other', false, { aliases: ['Tricep Pushdown', 'Cable Pushdown'] }),
+  entry('Skull Crusher', 'triceps', [], 'barbell', 'other', false, { aliases: ['Lying Triceps Extension'] }),
+
+  // Pulling
+  entry('Barbell Row', 'back', ['biceps', 'lower_back', 'traps'], 'barbell', 'horizontal_pull', true, { aliases: ['Bent-over Row'] }),
+  entry('Dumbbell Row', 'back', ['biceps'], 'dumbbell', 'horizontal_pull', true, { aliases: ['DB Row', 'One-Arm Dumbbell Row'] }),
+  entry('Seated Cable Row', 'back', ['biceps', 'traps'], 'cable', 'horizontal_pull', true, { aliases: ['Cable Row'] }),
+  entry('Pull-up', 'back', ['biceps', 'forearms'], 'bodyweight', 'vertical_pull', true),
+  entry('Chin-up', 'back', ['biceps', 'forearms'], 'bodyweight', 'vertical_pull', true),
+  entry('Lat Pulldown', 'back', ['biceps'], 'cable', 'vertical_pull', true, { aliases: ['Pulldown'] }),
+  entry('Face Pull', 'shoulders', ['traps', 'back'], 'cable', 'horizontal_pull', false),
+  entry('Shrug', 'traps', ['forearms'], 'barbell', 'other', false, { aliases: ['Barbell Shrug'] }),
+  entry('Barbell Curl', 'biceps', ['forearms'], 'barbell', 'other', false),
+  entry('Dumbbell Curl', 'biceps', ['forearms'], 'dumbbell', 'other', false),
+  entry('Hammer Curl', 'biceps', ['forearms'], 'dumbbell', 'other', false),
+
+  // Calves, carries and core
+  entry('Standing Calf Raise', 'calves', [], 'machine', 'other', false, { aliases: ['Calf Raise'] }),
+  entry("Farmer's Carry", 'forearms', ['traps', 'abs'], 'dumbbell', 'carry', true, {
+    aliases: ["Farmer's Walk", 'Farmers Walk'],
+    metrics: ['weight', 'distance'],
+  }),
+  entry('Sled Push', 'quads', ['glutes', 'calves'], 'other', 'other', true, {
+    aliases: ['Prowler Push'],
+    metrics: ['weight', 'distance'],
+  }),
+  entry('Rowing Machine', 'back', ['quads', 'hamstrings', 'biceps'], 'machine', 'other', true, {
+    aliases: ['Rower', 'Erg'],
+    metrics: ['duration', 'distance'],
+  }),
+  entry('Plank', 'abs', ['lower_back'], 'bodyweight', 'core', false, { metrics: ['duration'] }),
+  entry('Side Plank', 'abs', [], 'bodyweight', 'core', false, { metrics: ['duration'] }),
+  entry('Hanging Leg Raise', 'abs', ['forearms'], 'bodyweight', 'core', false, { metrics: ['reps'] }),
+  entry('Cable Crunch', 'abs', [], 'cable', 'core', false),
+]
+
+/**
+ * Attribute filters for picking an exercise; null matches anything
+ */
+export type ExerciseFilters = {
+  muscle: MuscleGroup | null
+  equipment: Equipment | null
+  movementPattern: MovementPattern | null
+  isCompound: boolean | null
+}
+
+export const EMPTY_EXERCISE_FILTERS: ExerciseFilters = {
+  muscle: null,
+  equipment: null,
+  movementPattern: null,
+  isCompound: null,
+}
+
+/**
+ * Checks an exercise against attribute filters
+ * @param exercise - Exercise metadata
+ * @param filters - Filters to apply
+ * @returns Whether the exercise matches (a muscle filter matches primary or secondary muscles)
+ */
+export function matchesExerciseFilters(exercise: ExerciseMetadata, filters: ExerciseFilters): boolean {
+  if (
+    filters.muscle !== null &&
+    exercise.primaryMuscle !== filters.muscle &&
+    !exercise.secondaryMuscles.includes(filters.muscle)
+  ) {
+    return false
+  }
+  if (filters.equipment !== null && exercise.equipment !== filters.equipment) {
+    return false
+  }
+  if (filters.movementPattern !== null && exercise.movementPattern !== filters.movementPattern) {
+    return false
+  }
+  return filters.isCompound === null || exercise.isCompound === filters.isCompound
+}
+
+/**
+ * Short description of an exercise's main attributes
+ * @param exercise - Exercise metadata
+ * @returns e.g. "Quads · Barbell · Compound", or an empty string when uncategorized
+ */
+export function formatExerciseMetadata(exercise: ExerciseMetadata): string {
+  const parts: string[] = []
+  if (exercise.primaryMuscle) {
+    parts.push(muscleGroupLabels[exercise.primaryMuscle])
+  }
+  if (exercise.equipment) {
+    parts.push(equipmentLabels[exercise.equipment])
+  }
+  if (exercise.isCompound !== null) {
+    parts.push(exercise.isCompound ? 'Compound' : 'Isolation')
+  }
+  return parts.join(' · ')
+}
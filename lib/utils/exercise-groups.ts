@@ -0,0 +1,87 @@
+/**
+ * Ways of linking exercises that are performed back to back
+ */
+export const exerciseGroupTypes = ['superset', 'giant_set', 'circuit'] as const
+
+export type ExerciseGroupType = (typeof exerciseGroupTypes)[number]
+
+export const DEFAULT_EXERCISE_GROUP_TYPE: ExerciseGroupType = 'superset'
+
+export const exerciseGroupTypeLabels: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  giant_set: 'Giant Set',
+  circuit: 'Circuit',
+}
+
+export const MIN_EXERCISE_GROUP_SIZE = 2
+
+/**
+ * Group fields shared by workout and template exercises
+ * Exercises with the same group number in a workout (or template) form one group
+ */
+export type ExerciseGroupFields = {
+  groupNumber: number | null
+  groupType: ExerciseGroupType | null
+}
+
+/**
+ * A run of exercises rendered together: a group, or a single ungrouped exercise
+ */
+export type ExerciseBlock<T> = {
+  groupNumber: number | null
+  groupType: ExerciseGroupType | null
+  exercises: T[]
+}
+
+/**
+ * Splits exercises (already in order) into blocks, one per group or ungrouped exercise
+ * @param exercises - Workout or template exercises sorted by order
+ * @returns Blocks in order; group members are contiguous
+ */
+export function toExerciseBlocks<T extends ExerciseGroupFields>(exercises: T[]): ExerciseBlock<T>[] {
+  const blocks: ExerciseBlock<T>[] = []
+
+  for (const exercise of exercises) {
+    const previous = blocks[blocks.length - 1]
+
+    if (
+      exercise.groupNumber !== null &&
+      previous &&
+      previous.groupNumber === exercise.groupNumber
+    ) {
+      previous.exercises.push(exercise)
+    } else {
+      blocks.push({
+        groupNumber: exercise.groupNumber,
+        groupType: exercise.groupNumber !== null ? exercise.groupType : null,
+        exercises: [exercise],
+      })
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Picks the group member whose set should be logged next
+ * Sets alternate between members, so this is the member with the fewest working
+ * sets; on a tie the earliest member in the group goes first.
+ * @param members - Group members in order, with their logged sets
+ * @returns ID of the member that is up next
+ */
+export function getUpNextMemberId(
+  members: { id: number; sets: { setType: string }[] }[]
+): number {
+  let upNext = members[0]
+  let fewestSets = Infinity
+
+  for (const member of members) {
+    const workingSets = member.sets.filter((set) => set.setType !== 'warmup').length
+    if (workingSets < fewestSets) {
+      upNext = member
+      fewestSets = workingSets
+    }
+  }
+
+  return upNext.id
+}
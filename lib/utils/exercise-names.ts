@@ -0,0 +1,143 @@
+/**
+ * Cleans up an exercise name for display: trims it and collapses runs of whitespace
+ * @param name - Name as typed
+ * @returns Cleaned name, e.g. "  Bench   Press " becomes "Bench Press"
+ */
+export function cleanExerciseName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Key two exercise names are compared by; names with the same key are the same exercise
+ * @param name - Name as typed
+ * @returns Cleaned, lowercased name, e.g. "bench  PRESS" becomes "bench press"
+ */
+export function normalizeExerciseName(name: string): string {
+  return cleanExerciseName(name).toLowerCase()
+}
+
+/**
+ * Another name an exercise is known by, e.g. "BP" for "Bench Press"
+ */
+export type ExerciseAliasName = {
+  exerciseId: number
+  alias: string
+}
+
+// Only letters and digits, so "Pull-up", "pull up" and "Pullup" compare equal
+function compact(name: string): string {
+  return normalizeExerciseName(name).replace(/[^a-z0-9]/g, '')
+}
+
+function tokenize(name: string): string[] {
+  return normalizeExerciseName(name)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0)
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * How alike two exercise names are, ignoring case, spacing and punctuation
+ * Scores typos by edit distance and extra or missing words by word overlap
+ * @param a - First name
+ * @param b - Second name
+ * @returns Score from 0 (nothing alike) to 1 (same name)
+ */
+export function getExerciseNameSimilarity(a: string, b: string): number {
+  const compactA = compact(a)
+  const compactB = compact(b)
+  if (!compactA || !compactB) {
+    return 0
+  }
+  if (compactA === compactB) {
+    return 1
+  }
+
+  const editScore =
+    1 - levenshteinDistance(compactA, compactB) / Math.max(compactA.length, compactB.length)
+
+  // Every word of the shorter name appears in the longer one, e.g. "Flat Bench Press"
+  const tokensA = tokenize(a)
+  const tokensB = tokenize(b)
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA]
+  const wordScore = shorter.every((token) => longer.includes(token))
+    ? 0.7 + 0.3 * (shorter.length / longer.length)
+    : 0
+
+  return Math.max(editScore, wordScore)
+}
+
+// Names scoring below this are not worth suggesting
+const MIN_SUGGESTION_SIMILARITY = 0.75
+
+/**
+ * Finds the exercise a name refers to, by its own name or one of its aliases
+ * @param name - Name as typed
+ * @param exercises - Exercises to search
+ * @param aliases - Aliases of those exercises
+ * @returns Matching exercise, or undefined when the name is new
+ */
+export function findExerciseByName<T extends { id: number; name: string }>(
+  name: string,
+  exercises: T[],
+  aliases: ExerciseAliasName[]
+): T | undefined {
+  const key = normalizeExerciseName(name)
+  const byName = exercises.find((exercise) => normalizeExerciseName(exercise.name) === key)
+  if (byName) {
+    return byName
+  }
+
+  const alias = aliases.find((entry) => normalizeExerciseName(entry.alias) === key)
+  return alias ? exercises.find((exercise) => exercise.id === alias.exerciseId) : undefined
+}
+
+/**
+ * Suggests existing exercises a new name was probably meant to be
+ * @param name - Name as typed
+ * @param exercises - Exercises to search
+ * @param aliases - Aliases of those exercises, matched like their names
+ * @param limit - Most suggestions to return
+ * @returns Closest exercises first, each once
+ */
+export function findSimilarExercises<T extends { id: number; name: string }>(
+  name: string,
+  exercises: T[],
+  aliases: ExerciseAliasName[],
+  limit = 3
+): T[] {
+  const scores = new Map<number, number>()
+  const record = (exerciseId: number, candidate: string) => {
+    const score = getExerciseNameSimilarity(name, candidate)
+    if (score >= MIN_SUGGESTION_SIMILARITY && score > (scores.get(exerciseId) ?? 0)) {
+      scores.set(exerciseId, score)
+    }
+  }
+
+  for (const exercise of exercises) {
+    record(exercise.id, exercise.name)
+  }
+  for (const alias of aliases) {
+    record(alias.exerciseId, alias.alias)
+  }
+
+  return exercises
+    .filter((exercise) => scores.has(exercise.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
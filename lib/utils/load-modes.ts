@@ -0,0 +1,130 @@
+import { formatWeight } from '@/lib/utils/strength'
+import {
+  fromKilograms,
+  toWeightInputValue,
+  STORED_WEIGHT_SCALE,
+  type WeightUnit,
+} from '@/lib/utils/units'
+
+/**
+ * How the load of an exercise is logged
+ * - external: the weight on the bar, machine or dumbbells
+ * - bodyweight: bodyweight plus added load (e.g. weighted pull-ups)
+ * - assisted: bodyweight minus assistance, stored as negative load
+ */
+export const loadModes = ['external', 'bodyweight', 'assisted'] as const
+
+export type LoadMode = (typeof loadModes)[number]
+
+export const DEFAULT_LOAD_MODE: LoadMode = 'external'
+
+export const loadModeLabels: Record<LoadMode, string> = {
+  external: 'External load',
+  bodyweight: 'Bodyweight + added load',
+  assisted: 'Assisted (bodyweight − assistance)',
+}
+
+const loadInputLabels: Record<LoadMode, string> = {
+  external: 'Weight',
+  bodyweight: 'Added Load',
+  assisted: 'Assistance',
+}
+
+/**
+ * Label for the load input of a set
+ * @param loadMode - Load mode of the exercise
+ * @param unit - Unit the load is entered in
+ * @returns Label with its unit (e.g., "Weight (kg)", "Assistance (lb)")
+ */
+export function getLoadInputLabel(loadMode: LoadMode, unit: WeightUnit): string {
+  return `${loadInputLabels[loadMode]} (${unit})`
+}
+
+/**
+ * Checks that a logged load has the sign its load mode allows
+ * @param weightKg - Signed load of the set
+ * @param loadMode - Load mode of the exercise
+ * @returns Whether the load is valid (assisted loads are ≤ 0, all others ≥ 0)
+ */
+export function isValidLoadForMode(weightKg: number, loadMode: LoadMode): boolean {
+  return loadMode === 'assisted' ? weightKg <= 0 : weightKg >= 0
+}
+
+/**
+ * Converts the value of a load input into the signed load that is stored
+ * @param value - Entered value (assistance is entered as a positive number)
+ * @param loadMode - Load mode of the exercise
+ * @returns Signed load as a decimal string
+ */
+export function toSignedLoad(value: string, loadMode: LoadMode): string {
+  return loadMode === 'assisted' && parseFloat(value) > 0 ? `-${value}` : value
+}
+
+/**
+ * Converts a stored load into the value shown in a load input
+ * @param weightKg - Signed load in kg as a decimal string
+ * @param loadMode - Load mode of the exercise
+ * @param unit - Unit the load is entered in
+ * @returns Value for the input (assistance is shown as a positive number)
+ */
+export function toLoadInputValue(weightKg: string, loadMode: LoadMode, unit: WeightUnit): string {
+  const weight = parseFloat(weightKg)
+  return toWeightInputValue(loadMode === 'assisted' ? Math.abs(weight) : weight, unit)
+}
+
+/**
+ * Works out the total load of a set, including bodyweight where it counts
+ * @param weightKg - Signed load of the set
+ * @param loadMode - Load mode of the exercise
+ * @param bodyweightKg - Bodyweight on the day of the workout (unknown counts as 0)
+ * @returns Effective load, never below 0
+ */
+export function getEffectiveLoad(
+  weightKg: number,
+  loadMode: LoadMode,
+  bodyweightKg: number | null
+): number {
+  if (loadMode === 'external') {
+    return weightKg
+  }
+  return Math.max((bodyweightKg ?? 0) + weightKg, 0)
+}
+
+/**
+ * Swaps the logged load of a set for its effective load, so e1RM and volume include bodyweight
+ * @param set - Set with a decimal weight string
+ * @param loadMode - Load mode of the exercise
+ * @param bodyweightKg - Bodyweight on the day of the workout
+ * @returns The set with weightKg replaced by the effective load
+ */
+export function withEffectiveLoad<T extends { weightKg: string | null }>(
+  set: T,
+  loadMode: LoadMode,
+  bodyweightKg: number | null
+): T {
+  if (loadMode === 'external' || set.weightKg === null) {
+    return set
+  }
+  return {
+    ...set,
+    weightKg: getEffectiveLoad(parseFloat(set.weightKg), loadMode, bodyweightKg).toFixed(STORED_WEIGHT_SCALE),
+  }
+}
+
+/**
+ * Formats the logged load of a set for display
+ * @param weightKg - Signed load in kg as a decimal string
+ * @param loadMode - Load mode of the exercise
+ * @param unit - Unit to show the load in
+ * @returns The weight for external loads, otherwise e.g. "BW", "BW+20kg" or "BW−15kg"
+ */
+export function formatLoad(weightKg: string, loadMode: LoadMode, unit: WeightUnit): string {
+  if (loadMode === 'external') {
+    return toWeightInputValue(weightKg, unit)
+  }
+  const weight = fromKilograms(parseFloat(weightKg), unit)
+  if (weight === 0) {
+    return 'BW'
+  }
+  return weight > 0 ? `BW+${formatWeight(weight)}${unit}` : `BW−${formatWeight(-weight)}${unit}`
+}
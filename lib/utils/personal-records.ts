@@ -0,0 +1,11 @@
+import type { PersonalRecordType } from '@/src/db/schema'
+
+/**
+ * Display labels for each personal record type
+ */
+export const personalRecordLabels: Record<PersonalRecordType, string> = {
+  max_weight: 'Heaviest weight',
+  max_reps: 'Most reps at this weight',
+  best_e1rm: 'Best estimated 1RM',
+  best_session_volume: 'Best session volume',
+}
@@ -0,0 +1,150 @@
+import type { WeightUnit } from '@/lib/utils/units'
+
+/**
+ * Plates of one size that the user owns (count is the total, not per side)
+ */
+export type PlateInventoryItem = {
+  weight: number
+  count: number
+}
+
+/**
+ * The bar and plates a user loads, in the unit the plates are marked in
+ */
+export type PlateSetup = {
+  unit: WeightUnit
+  barWeight: number
+  plates: PlateInventoryItem[]
+}
+
+/**
+ * Plates loaded on one side of the bar for a target weight
+ */
+export type PlateLoad = {
+  perSide: PlateInventoryItem[]
+  barWeight: number
+  totalWeight: number
+  isExact: boolean
+}
+
+const plates = (weights: [number, number][]): PlateInventoryItem[] =>
+  weights.map(([weight, count]) => ({ weight, count }))
+
+/**
+ * A typical commercial gym setup for each unit
+ */
+export const defaultPlateSetups: Record<WeightUnit, PlateSetup> = {
+  kg: {
+    unit: 'kg',
+    barWeight: 20,
+    plates: plates([[25, 8], [20, 2], [15, 2], [10, 2], [5, 2], [2.5, 2], [1.25, 2]]),
+  },
+  lb: {
+    unit: 'lb',
+    barWeight: 45,
+    plates: plates([[45, 8], [35, 2], [25, 2], [10, 2], [5, 2], [2.5, 2]]),
+  },
+}
+
+/**
+ * Gets the user's saved plate setup, falling back to the default for their unit
+ * @param saved - Saved plate setup, or null when the user has not set one
+ * @param unit - The user's weight unit
+ * @returns Plate setup to calculate with
+ */
+export function getPlateSetup(saved: PlateSetup | null, unit: WeightUnit): PlateSetup {
+  return saved ?? defaultPlateSetups[unit]
+}
+
+/**
+ * Limits of a saved plate setup, which keep the plate search small
+ */
+export const MAX_PLATE_SIZES = 12
+export const MAX_PLATE_COUNT = 20 // Total of one size, half per side
+export const MAX_PLATE_WEIGHT = 50
+export const PLATE_WEIGHT_STEP = 0.25 // Plate weights are multiples of this
+
+// Plates are matched in hundredths so fractional plates (1.25, 2.5) add up exactly
+const PLATE_PRECISION = 100
+
+// Hard cap on the per-side totals tracked, for setups saved before the limits above
+const MAX_REACHABLE_TOTALS = 20000
+
+/**
+ * Works out which plates go on each side of the bar for a weight
+ * Every loadable total up to twice the target is considered, so the closest weight is
+ * found even with a limited inventory; between equal totals the fewest plates win.
+ * Totals beyond twice the target are never closer than an empty bar, and no more
+ * than MAX_REACHABLE_TOTALS are tracked, so an oversized inventory cannot blow up.
+ * @param targetWeight - Weight to load, in the unit of the setup
+ * @param setup - Bar and plate inventory
+ * @returns Plates per side (heaviest first) and the weight they load; isExact is
+ * false when only the nearest loadable weight could be found (ties round down)
+ */
+export function calculatePlateLoad(targetWeight: number, setup: PlateSetup): PlateLoad {
+  const sizes = [...setup.plates]
+    .filter((plate) => plate.weight > 0 && plate.count >= 2)
+    .sort((a, b) => b.weight - a.weight)
+
+  const targetPerSide = Math.round(((targetWeight - setup.barWeight) / 2) * PLATE_PRECISION)
+
+  // Loadable per-side totals, each with the fewest plates (counts per size) that reach it
+  let reachable = new Map<number, number[]>([[0, sizes.map(() => 0)]])
+
+  sizes.forEach((plate, index) => {
+    const plateWeight = Math.round(plate.weight * PLATE_PRECISION)
+    const next = new Map(reachable)
+
+    for (const [total, counts] of reachable) {
+      for (let count = 1; count <= Math.floor(plate.count / 2); count++) {
+        const newTotal = total + plateWeight * count
+        if (newTotal > targetPerSide * 2) {
+          break
+        }
+        const newCounts = counts.map((existing, i) => (i === index ? count : existing))
+        const current = next.get(newTotal)
+        if (!current && next.size >= MAX_REACHABLE_TOTALS) {
+          continue
+        }
+        if (!current || sumCounts(newCounts) < sumCounts(current)) {
+          next.set(newTotal, newCounts)
+        }
+      }
+    }
+
+    reachable = next
+  })
+
+  let bestTotal = 0
+  for (const total of reachable.keys()) {
+    const distance = Math.abs(total - targetPerSide)
+    const bestDistance = Math.abs(bestTotal - targetPerSide)
+    if (distance < bestDistance || (distance === bestDistance && total < bestTotal)) {
+      bestTotal = total
+    }
+  }
+
+  const counts = reachable.get(bestTotal)!
+  return {
+    perSide: sizes
+      .map((plate, index) => ({ weight: plate.weight, count: counts[index] }))
+      .filter((plate) => plate.count > 0),
+    barWeight: setup.barWeight,
+    totalWeight: setup.barWeight + (bestTotal * 2) / PLATE_PRECISION,
+    isExact: bestTotal === targetPerSide,
+  }
+}
+
+/**
+ * Formats a plate or bar weight without rounding away fractional plates
+ * @param weight - Weight in the unit of the setup
+ * @param unit - Unit the plates are marked in
+ * @returns Formatted weight (e.g. "1.25 kg")
+ */
+export function formatPlateWeight(weight: number, unit: WeightUnit): string {
+  return `${Number(weight.toFixed(2))} ${unit}`
+}
+
+function sumCounts(counts: number[]): number {
+  return counts.reduce((total, count) => total + count, 0)
+}
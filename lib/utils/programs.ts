@@ -0,0 +1,254 @@
+import { addDays } from 'date-fns'
+import {
+  fromKilograms,
+  toKilograms,
+  loadIncrements,
+  STORED_WEIGHT_SCALE,
+  type WeightUnit,
+} from '@/lib/utils/units'
+
+/**
+ * How the load of a prescribed set is derived from the lifter's inputs
+ * - percent: a percentage of the lift's training max (e.g. 5/3/1)
+ * - progression: a fixed increment per week from the lift's starting weight (e.g. GZCLP)
+ */
+export type PrescribedLoad =
+  | { type: 'percent'; percent: number }
+  | { type: 'progression'; startPercent: number; incrementKg: number }
+
+export type PrescribedSet = {
+  reps: number
+  amrap?: boolean
+  load: PrescribedLoad
+}
+
+export type ProgramExercise = {
+  lift: string
+  exerciseName: string
+  sets: PrescribedSet[]
+}
+
+export type ProgramDay = {
+  name: string
+  dayOffset: number // Days after the start of the program week
+  exercises: ProgramExercise[]
+}
+
+export type ProgramWeek = {
+  days: ProgramDay[]
+}
+
+export type ProgramLift = {
+  key: string
+  label: string
+}
+
+export type ProgramDefinition = {
+  id: string
+  name: string
+  description: string
+  input: 'training_max' | 'starting_weight'
+  lifts: ProgramLift[]
+  weeks: ProgramWeek[]
+}
+
+/**
+ * A single generated session: what to train and which sets are prescribed
+ */
+export type ScheduledProgramWorkout = {
+  week: number
+  day: number
+  name: string
+  startedAt: Date
+  exercises: {
+    exerciseName: string
+    sets: { setNumber: number; weightKg: string; reps: number; isAmrap: boolean }[]
+  }[]
+}
+
+export const programInputLabels: Record<ProgramDefinition['input'], string> = {
+  training_max: 'Training Max',
+  starting_weight: 'Starting Weight',
+}
+
+const percentSets = (scheme: [number, number, boolean?][]): PrescribedSet[] =>
+  scheme.map(([percent, reps, amrap]) => ({
+    reps,
+    amrap: amrap ?? false,
+    load: { type: 'percent', percent },
+  }))
+
+// 5/3/1 main work for each week of the cycle (percent of training max, reps, AMRAP)
+const fiveThreeOneWeeks: [number, number, boolean?][][] = [
+  [[0.65, 5], [0.75, 5], [0.85, 5, true]],
+  [[0.7, 3], [0.8, 3], [0.9, 3, true]],
+  [[0.75, 5], [0.85, 3], [0.95, 1, true]],
+  [[0.4, 5], [0.5, 5], [0.6, 5]],
+]
+
+const fiveThreeOneDays = [
+  { name: 'Press', dayOffset: 0, lift: 'press', exerciseName: 'Overhead Press' },
+  { name: 'Deadlift', dayOffset: 1, lift: 'deadlift', exerciseName: 'Deadlift' },
+  { name: 'Bench', dayOffset: 3, lift: 'bench', exerciseName: 'Bench Press' },
+  { name: 'Squat', dayOffset: 4, lift: 'squat', exerciseName: 'Squat' },
+]
+
+const gzclpTier1 = (incrementKg: number): PrescribedSet[] => [
+  ...Array.from({ length: 4 }, () => ({
+    reps: 3,
+    load: { type: 'progression' as const, startPercent: 1, incrementKg },
+  })),
+  { reps: 3, amrap: true, load: { type: 'progression', startPercent: 1, incrementKg } },
+]
+
+const gzclpTier2 = (incrementKg: number): PrescribedSet[] =>
+  Array.from({ length: 3 }, () => ({
+    reps: 10,
+    load: { type: 'progression' as const, startPercent: 0.65, incrementKg },
+  }))
+
+// GZCLP rotates A1, B1, A2, B2; lower-body lifts progress faster than upper-body lifts
+const gzclpDays = [
+  { name: 'A1', dayOffset: 0, t1: ['squat', 'Squat', 5], t2: ['bench', 'Bench Press', 2.5] },
+  { name: 'B1', dayOffset: 1, t1: ['press', 'Overhead Press', 2.5], t2: ['deadlift', 'Deadlift', 5] },
+  { name: 'A2', dayOffset: 3, t1: ['bench', 'Bench Press', 2.5], t2: ['squat', 'Squat', 5] },
+  { name: 'B2', dayOffset: 4, t1: ['deadlift', 'Deadlift', 5], t2: ['press', 'Overhead Press', 2.5] },
+] as const
+
+const mainLifts: ProgramLift[] = [
+  { key: 'squat', label: 'Squat' },
+  { key: 'bench', label: 'Bench Press' },
+  { key: 'deadlift', label: 'Deadlift' },
+  { key: 'press', label: 'Overhead Press' },
+]
+
+/**
+ * Built-in training programs
+ */
+export const programs: ProgramDefinition[] = [
+  {
+    id: '531',
+    name: '5/3/1',
+    description: 'Four-week cycle of 5s, 3s and 5/3/1 weeks plus a deload, based on a training max for each main lift.',
+    input: 'training_max',
+    lifts: mainLifts,
+    weeks: fiveThreeOneWeeks.map((scheme) => ({
+      days: fiveThreeOneDays.map((day) => ({
+        name: day.name,
+        dayOffset: day.dayOffset,
+        exercises: [
+          { lift: day.lift, exerciseName: day.exerciseName, sets: percentSets(scheme) },
+        ],
+      })),
+    })),
+  },
+  {
+    id: 'gzclp',
+    name: 'GZCLP',
+    description: 'Linear progression with a heavy tier 1 lift and a volume tier 2 lift each day, adding weight every week.',
+    input: 'starting_weight',
+    lifts: mainLifts,
+    weeks: Array.from({ length: 4 }, () => ({
+      days: gzclpDays.map((day) => ({
+        name: day.name,
+        dayOffset: day.dayOffset,
+        exercises: [
+          { lift: day.t1[0], exerciseName: day.t1[1], sets: gzclpTier1(day.t1[2]) },
+          { lift: day.t2[0], exerciseName: day.t2[1], sets: gzclpTier2(day.t2[2] / 2) },
+        ],
+      })),
+    })),
+  },
+]
+
+/**
+ * Finds a built-in program by its ID
+ * @param programId - Program ID
+ * @returns The program definition, or undefined if it does not exist
+ */
+export function getProgramById(programId: string): ProgramDefinition | undefined {
+  return programs.find((program) => program.id === programId)
+}
+
+/**
+ * Rounds a weight to the nearest loadable increment
+ * @param weight - Weight to round
+ * @param increment - Smallest load step, in the same unit as weight
+ * @returns Rounded weight
+ */
+export function roundToIncrement(weight: number, increment: number): number {
+  return Math.round(weight / increment) * increment
+}
+
+/**
+ * Calculates the weight for a prescribed set
+ * Weights are worked out and rounded in the lifter's unit so they can be loaded on a bar
+ * @param load - How the load is prescribed
+ * @param base - Training max or starting weight for the lift (kg)
+ * @param weekIndex - Zero-based week of the program
+ * @param unit - Unit the lifter loads the bar in (defaults to kg)
+ * @returns Weight in kg, rounded to a loadable increment in `unit`
+ */
+export function calculatePrescribedWeight(
+  load: PrescribedLoad,
+  base: number,
+  weekIndex: number,
+  unit: WeightUnit = 'kg'
+): number {
+  const increment = loadIncrements[unit]
+  const baseInUnit = fromKilograms(base, unit)
+  const weight =
+    load.type === 'percent'
+      ? baseInUnit * load.percent
+      : baseInUnit * load.startPercent +
+        roundToIncrement(fromKilograms(load.incrementKg, unit), increment) * weekIndex
+  return toKilograms(Math.max(0, roundToIncrement(weight, increment)), unit)
+}
+
+/**
+ * Expands a program into dated workouts with prescribed sets
+ * @param program - Program definition
+ * @param startDate - Date and time of the first program week
+ * @param inputs - Training max or starting weight per lift key (kg)
+ * @param unit - Unit the lifter loads the bar in (defaults to kg)
+ * @returns Workouts in chronological order
+ */
+export function buildProgramSchedule(
+  program: ProgramDefinition,
+  startDate: Date,
+  inputs: Record<string, number>,
+  unit: WeightUnit = 'kg'
+): ScheduledProgramWorkout[] {
+  return program.weeks.flatMap((week, weekIndex) =>
+    week.days.map((day, dayIndex) => ({
+      week: weekIndex + 1,
+      day: dayIndex + 1,
+      name: `${program.name} ${day.name}`,
+      startedAt: addDays(startDate, weekIndex * 7 + day.dayOffset),
+      exercises: day.exercises.map((exercise) => ({
+        exerciseName: exercise.exerciseName,
+        sets: exercise.sets.map((set, setIndex) => ({
+          setNumber: setIndex + 1,
+          weightKg: calculatePrescribedWeight(
+            set.load,
+            inputs[exercise.lift] ?? 0,
+            weekIndex,
+            unit
+          ).toFixed(STORED_WEIGHT_SCALE),
+          reps: set.reps,
+          isAmrap: set.amrap ?? false,
+        })),
+      })),
+    }))
+  )
+}
+
+/**
+ * Formats where a workout sits in its program
+ * @param week - One-based program week
+ * @param day - One-based day within the week
+ * @returns Formatted position (e.g., "Week 2 · Day 3")
+ */
+export function formatProgramPosition(week: number, day: number): string {
+  return `Week ${week} · Day ${day}`
+}
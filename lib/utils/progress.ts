@@ -0,0 +1,148 @@
+import { formatWeightInUnit, fromKilograms, type WeightUnit } from '@/lib/utils/units'
+import { formatDistance, formatSetDuration, tracksLoadAndReps, type SetMetric } from '@/lib/utils/set-metrics'
+import type { ExerciseProgressPoint } from '@/types/workout'
+
+/**
+ * Metrics available on progress charts, one value per session
+ */
+export const progressMetrics = [
+  'topSetWeight',
+  'bestE1rm',
+  'totalVolume',
+  'totalReps',
+  'totalDuration',
+  'totalDistance',
+] as const
+
+export type ProgressMetric = (typeof progressMetrics)[number]
+
+const progressMetricLabels: Record<ProgressMetric, string> = {
+  topSetWeight: 'Top Set Weight',
+  bestE1rm: 'Estimated 1RM',
+  totalVolume: 'Total Volume',
+  totalReps: 'Total Reps',
+  totalDuration: 'Total Time',
+  totalDistance: 'Total Distance',
+}
+
+/**
+ * Short names for a metric's latest value (e.g., "Latest e1RM")
+ */
+export const progressMetricShortLabels: Record<ProgressMetric, string> = {
+  topSetWeight: 'top set',
+  bestE1rm: 'e1RM',
+  totalVolume: 'volume',
+  totalReps: 'reps',
+  totalDuration: 'time',
+  totalDistance: 'distance',
+}
+
+/**
+ * Checks whether a metric is a weight (stored in kg) rather than a count, time or distance
+ * @param metric - Progress metric
+ * @returns Whether the metric is converted to the user's unit
+ */
+export function isWeightMetric(metric: ProgressMetric): boolean {
+  return metric === 'topSetWeight' || metric === 'bestE1rm' || metric === 'totalVolume'
+}
+
+/**
+ * Label for a progress metric
+ * @param metric - Progress metric
+ * @param unit - The user's weight unit
+ * @returns Label with the unit for weight, time and distance metrics (e.g., "Total Volume (lb)")
+ */
+export function getProgressMetricLabel(metric: ProgressMetric, unit: WeightUnit): string {
+  if (isWeightMetric(metric)) {
+    return `${progressMetricLabels[metric]} (${unit})`
+  }
+  if (metric === 'totalDuration') {
+    return `${progressMetricLabels[metric]} (min)`
+  }
+  if (metric === 'totalDistance') {
+    return `${progressMetricLabels[metric]} (m)`
+  }
+  return progressMetricLabels[metric]
+}
+
+/**
+ * Value of a metric as charted: weights in the user's unit and time in minutes
+ * @param point - Session progress point
+ * @param metric - Progress metric
+ * @param unit - The user's weight unit
+ * @returns Value in the unit named by getProgressMetricLabel
+ */
+export function getProgressMetricValue(
+  point: ExerciseProgressPoint,
+  metric: ProgressMetric,
+  unit: WeightUnit
+): number {
+  if (isWeightMetric(metric)) {
+    return fromKilograms(point[metric], unit)
+  }
+  if (metric === 'totalDuration') {
+    return point[metric] / 60
+  }
+  return point[metric]
+}
+
+/**
+ * Formats a metric of a session for display
+ * @param point - Session progress point
+ * @param metric - Progress metric
+ * @param unit - The user's weight unit
+ * @returns e.g. "100 kg", "36", "2:30" or "400 m"
+ */
+export function formatProgressMetric(
+  point: ExerciseProgressPoint,
+  metric: ProgressMetric,
+  unit: WeightUnit
+): string {
+  if (isWeightMetric(metric)) {
+    return formatWeightInUnit(point[metric], unit)
+  }
+  if (metric === 'totalDuration') {
+    return formatSetDuration(point[metric])
+  }
+  if (metric === 'totalDistance') {
+    return formatDistance(point[metric])
+  }
+  return String(point[metric])
+}
+
+/**
+ * Progress metrics that apply to an exercise, by what its sets record
+ * @param metrics - Metrics the exercise tracks
+ * @returns All load metrics for weight and reps exercises, otherwise one per tracked metric
+ */
+export function getProgressMetricsForExercise(metrics: readonly SetMetric[]): ProgressMetric[] {
+  if (tracksLoadAndReps(metrics)) {
+    return ['topSetWeight', 'bestE1rm', 'totalVolume', 'totalReps']
+  }
+
+  const applicable: Record<SetMetric, ProgressMetric> = {
+    weight: 'topSetWeight',
+    reps: 'totalReps',
+    duration: 'totalDuration',
+    distance: 'totalDistance',
+  }
+  return metrics.map((metric) => applicable[metric])
+}
+
+/**
+ * The one metric to show when space allows a single trend
+ * @param metrics - Metrics the exercise tracks
+ * @returns Estimated 1RM for weight and reps exercises, otherwise the most telling metric tracked
+ */
+export function getHeadlineProgressMetric(metrics: readonly SetMetric[]): ProgressMetric {
+  if (tracksLoadAndReps(metrics)) {
+    return 'bestE1rm'
+  }
+  if (metrics.includes('distance')) {
+    return 'totalDistance'
+  }
+  if (metrics.includes('duration')) {
+    return 'totalDuration'
+  }
+  return metrics.includes('reps') ? 'totalReps' : 'topSetWeight'
+}
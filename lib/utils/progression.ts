@@ -0,0 +1,201 @@
+import {
+  estimateSetOneRepMax,
+  estimateWeightForRpe,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  type OneRepMaxFormula,
+  type RatedSet,
+} from '@/lib/utils/strength'
+import { getEffectiveLoad, withEffectiveLoad, type LoadMode } from '@/lib/utils/load-modes'
+import { loadIncrements, toKilograms, type WeightUnit } from '@/lib/utils/units'
+import { roundToIncrement } from '@/lib/utils/programs'
+import { hasLoadAndReps } from '@/lib/utils/set-metrics'
+import type { SetType } from '@/lib/utils/set-types'
+
+/**
+ * Rules for suggesting the next session's weight and reps from the last one
+ * - linear: add weight after a session where every top set hit the target reps, repeat
+ *   the weight after a near miss and deload after a clear miss
+ * - double: add reps within a rep range, then add weight once every top set reaches the top
+ * - rpe: pick the weight for the same reps at a target RPE from the last session's best e1RM
+ */
+export const progressionModels = ['linear', 'double', 'rpe'] as const
+
+export type ProgressionModel = (typeof progressionModels)[number]
+
+export const progressionModelLabels: Record<ProgressionModel, string> = {
+  linear: 'Linear progression',
+  double: 'Double progression',
+  rpe: 'RPE-based progression',
+}
+
+/**
+ * Per-exercise progression settings; exercises without any get no suggestions
+ */
+export type ProgressionSettings = {
+  model: ProgressionModel
+  incrementKg: number // Weight added when progressing (and rounding step for RPE)
+  targetReps: number // Reps every top set must hit for linear progression
+  minReps: number // Rep range for double progression
+  maxReps: number
+  targetRpe: number // Target effort for RPE-based progression
+}
+
+export const DEFAULT_TARGET_REPS = 5
+
+export const DEFAULT_REP_RANGE = { min: 8, max: 12 }
+
+export const DEFAULT_TARGET_RPE = 8
+
+// Linear progression deloads when a top set falls short of this share of the target reps
+const LINEAR_DELOAD_REPS_RATIO = 0.6
+
+// Share of the weight taken off in a deload
+const LINEAR_DELOAD_PERCENTAGE = 0.1
+
+/**
+ * Default settings for a newly chosen model, using the smallest load step of the unit
+ * @param model - Progression model
+ * @param unit - Unit the lifter loads in
+ * @returns Settings with the default increment, target reps, rep range and target RPE
+ */
+export function getDefaultProgressionSettings(
+  model: ProgressionModel,
+  unit: WeightUnit
+): ProgressionSettings {
+  return {
+    model,
+    incrementKg: toKilograms(loadIncrements[unit], unit),
+    targetReps: DEFAULT_TARGET_REPS,
+    minReps: DEFAULT_REP_RANGE.min,
+    maxReps: DEFAULT_REP_RANGE.max,
+    targetRpe: DEFAULT_TARGET_RPE,
+  }
+}
+
+/**
+ * A set from the last session, as logged (timed and distance sets have no weight or reps)
+ */
+export type ProgressionSet = Omit<RatedSet, 'weightKg' | 'reps'> & {
+  weightKg: string | null
+  reps: number | null
+  setType: SetType
+}
+
+/**
+ * Suggested weight and reps for the working sets of the next session
+ */
+export type ProgressionSuggestion = {
+  weightKg: number // Signed load, like a logged set
+  reps: number
+  setCount: number
+  reason: string
+}
+
+// Added load cannot go below zero and assistance cannot turn into added load
+function clampLoad(weightKg: number, loadMode: LoadMode): number {
+  return loadMode === 'assisted' ? Math.min(weightKg, 0) : Math.max(weightKg, 0)
+}
+
+/**
+ * Suggests the next session's working sets from the sets logged last time
+ * Only working sets with a weight and reps count; the heaviest of them are the top sets the rules look at.
+ * Adding the increment to a signed load makes bodyweight and assisted exercises harder too.
+ * @param previousSets - Sets logged in the last session with the exercise
+ * @param settings - The exercise's progression settings
+ * @param options - Load mode, bodyweight today (for RPE-based loads) and 1RM formula
+ * @returns Suggestion, or null when there is nothing to go on
+ */
+export function suggestProgression(
+  previousSets: ProgressionSet[],
+  settings: ProgressionSettings,
+  options: {
+    loadMode: LoadMode
+    bodyweightKg: number | null
+    formula?: OneRepMaxFormula
+  }
+): ProgressionSuggestion | null {
+  const workingSets = previousSets
+    .filter(hasLoadAndReps)
+    .filter((set) => set.setType !== 'warmup')
+  if (workingSets.length === 0) {
+    return null
+  }
+
+  const topWeight = Math.max(...workingSets.map((set) => parseFloat(set.weightKg)))
+  const topSets = workingSets.filter((set) => parseFloat(set.weightKg) === topWeight)
+  const lowestReps = Math.min(...topSets.map((set) => set.reps))
+  const setCount = topSets.length
+
+  if (settings.model === 'linear') {
+    const { targetReps } = settings
+    if (lowestReps >= targetReps) {
+      return {
+        weightKg: clampLoad(topWeight + settings.incrementKg, options.loadMode),
+        reps: targetReps,
+        setCount,
+        reason: `Every set hit ${targetReps} reps — add weight`,
+      }
+    }
+    if (lowestReps < Math.ceil(targetReps * LINEAR_DELOAD_REPS_RATIO)) {
+      // Take the deload off the effective load, so assisted exercises get more assistance
+      const bodyweightPart = getEffectiveLoad(0, options.loadMode, options.bodyweightKg)
+      const effectiveLoad = getEffectiveLoad(topWeight, options.loadMode, options.bodyweightKg)
+      return {
+        weightKg: clampLoad(
+          roundToIncrement(effectiveLoad * (1 - LINEAR_DELOAD_PERCENTAGE) - bodyweightPart, settings.incrementKg),
+          options.loadMode
+        ),
+        reps: targetReps,
+        setCount,
+        reason: `Only ${lowestReps} of ${targetReps} reps — deload ${LINEAR_DELOAD_PERCENTAGE * 100}%`,
+      }
+    }
+    return {
+      weightKg: topWeight,
+      reps: targetReps,
+      setCount,
+      reason: `Missed ${targetReps} reps — repeat the weight`,
+    }
+  }
+
+  if (settings.model === 'double') {
+    if (lowestReps >= settings.maxReps) {
+      return {
+        weightKg: clampLoad(topWeight + settings.incrementKg, options.loadMode),
+        reps: settings.minReps,
+        setCount,
+        reason: `Reached ${settings.maxReps} reps on every set — add weight`,
+      }
+    }
+    return {
+      weightKg: topWeight,
+      reps: Math.min(Math.max(lowestReps + 1, settings.minReps), settings.maxReps),
+      setCount,
+      reason: `Add a rep, up to ${settings.maxReps}`,
+    }
+  }
+
+  // RPE-based: unrated sets count as taken to failure
+  const formula = options.formula ?? DEFAULT_ONE_REP_MAX_FORMULA
+  const bestOneRepMax = Math.max(
+    ...workingSets.map((set) =>
+      estimateSetOneRepMax(withEffectiveLoad(set, options.loadMode, options.bodyweightKg), formula, true)
+    )
+  )
+  if (bestOneRepMax <= 0) {
+    return null
+  }
+
+  const reps = topSets[0].reps
+  const effectiveLoad = estimateWeightForRpe(bestOneRepMax, reps, settings.targetRpe, formula)
+  const bodyweightPart = getEffectiveLoad(0, options.loadMode, options.bodyweightKg)
+  return {
+    weightKg: clampLoad(
+      roundToIncrement(effectiveLoad - bodyweightPart, settings.incrementKg),
+      options.loadMode
+    ),
+    reps,
+    setCount,
+    reason: `${reps} reps at RPE ${settings.targetRpe}`,
+  }
+}
@@ -0,0 +1,125 @@
+export const DEFAULT_REST_SECONDS = 120
+
+export const MAX_REST_SECONDS = 60 * 60
+
+// Longer gaps are treated as a break in the session rather than rest between sets
+const MAX_RECORDED_REST_SECONDS = 30 * 60
+
+const STORAGE_KEY = 'lifting-diary:rest-timer'
+const CHANGE_EVENT = 'lifting-diary:rest-timer-change'
+
+/**
+ * The running rest timer, persisted in localStorage so it survives
+ * re-renders, route refreshes and reloads
+ */
+export type RestTimerState = {
+  workoutId: number
+  workoutExerciseId: number
+  exerciseName: string
+  startedAt: number // Epoch milliseconds when the previous set was logged
+  durationSeconds: number
+  dismissed: boolean
+  notified: boolean
+}
+
+/**
+ * Returns the raw stored timer, suitable as a useSyncExternalStore snapshot
+ */
+export function getRestTimerSnapshot(): string | null {
+  return window.localStorage.getItem(STORAGE_KEY)
+}
+
+/**
+ * Parses a stored timer snapshot
+ * @param snapshot - Raw value from getRestTimerSnapshot
+ * @returns The timer state, or null when there is no valid timer
+ */
+export function parseRestTimer(snapshot: string | null): RestTimerState | null {
+  if (!snapshot) {
+    return null
+  }
+  try {
+    return JSON.parse(snapshot) as RestTimerState
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Saves (or clears) the timer and notifies subscribers in this tab
+ * @param state - New timer state, or null to clear it
+ */
+export function writeRestTimer(state: RestTimerState | null): void {
+  if (state) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY)
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Subscribes to timer changes from this tab and from other tabs
+ * @param callback - Called whenever the timer changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToRestTimer(callback: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      callback()
+    }
+  }
+
+  window.addEventListener(CHANGE_EVENT, callback)
+  window.addEventListener('storage', handleStorage)
+
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, callback)
+    window.removeEventListener('storage', handleStorage)
+  }
+}
+
+/**
+ * Starts a new rest timer, replacing any running one
+ */
+export function startRestTimer(
+  timer: Pick<RestTimerState, 'workoutId' | 'workoutExerciseId' | 'exerciseName' | 'durationSeconds'>
+): void {
+  writeRestTimer({
+    ...timer,
+    startedAt: Date.now(),
+    dismissed: false,
+    notified: false,
+  })
+}
+
+/**
+ * Calculates how long the user rested since the last set in a workout
+ * @param workoutId - Workout the next set is logged in
+ * @param now - Current time in epoch milliseconds (defaults to now)
+ * @returns Rest in whole seconds, or null when no rest was timed for this workout
+ */
+export function getRestTakenSeconds(workoutId: number, now: number = Date.now()): number | null {
+  const timer = parseRestTimer(getRestTimerSnapshot())
+  if (!timer || timer.workoutId !== workoutId) {
+    return null
+  }
+
+  const seconds = Math.round((now - timer.startedAt) / 1000)
+  if (seconds < 0 || seconds > MAX_RECORDED_REST_SECONDS) {
+    return null
+  }
+  return seconds
+}
+
+/**
+ * Formats a number of seconds as a countdown
+ * @param seconds - Number of seconds
+ * @returns Formatted time (e.g., "1:05", "12:00")
+ */
+export function formatRestTime(seconds: number): string {
+  const absolute = Math.abs(Math.round(seconds))
+  const minutes = Math.floor(absolute / 60)
+  const remainder = absolute % 60
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`
+}
@@ -0,0 +1,218 @@
+import { formatLoad, type LoadMode } from '@/lib/utils/load-modes'
+import { calculateVolume } from '@/lib/utils/strength'
+import { formatWeightInUnit, type WeightUnit } from '@/lib/utils/units'
+
+/**
+ * What the sets of an exercise record
+ * - weight: load in kg (signed for bodyweight and assisted exercises)
+ * - reps: repetitions
+ * - duration: time worked, e.g. a plank hold
+ * - distance: distance covered, e.g. a carry, sled push or row
+ */
+export const setMetrics = ['weight', 'reps', 'duration', 'distance'] as const
+
+export type SetMetric = (typeof setMetrics)[number]
+
+export const setMetricLabels: Record<SetMetric, string> = {
+  weight: 'Weight',
+  reps: 'Reps',
+  duration: 'Time',
+  distance: 'Distance',
+}
+
+export const DEFAULT_SET_METRICS: SetMetric[] = ['weight', 'reps']
+
+/**
+ * Puts metrics in their canonical order and drops duplicates
+ * @param metrics - Metrics in any order
+ * @returns Metrics in the order of setMetrics
+ */
+export function sortSetMetrics(metrics: readonly SetMetric[]): SetMetric[] {
+  return setMetrics.filter((metric) => metrics.includes(metric))
+}
+
+/**
+ * Whether two exercises record the same metrics, in any order
+ * @param a - Metrics of one exercise
+ * @param b - Metrics of the other
+ */
+export function haveSameSetMetrics(a: readonly SetMetric[], b: readonly SetMetric[]): boolean {
+  const sortedA = sortSetMetrics(a)
+  const sortedB = sortSetMetrics(b)
+  return sortedA.length === sortedB.length && sortedA.every((metric, index) => metric === sortedB[index])
+}
+
+/**
+ * Lists the metrics an exercise records
+ * @param metrics - Metrics the exercise tracks
+ * @returns e.g. "Weight, Reps" or "Time"
+ */
+export function formatSetMetricLabels(metrics: readonly SetMetric[]): string {
+  return sortSetMetrics(metrics).map((metric) => setMetricLabels[metric]).join(', ')
+}
+
+/**
+ * Whether an exercise records both weight and reps, which e1RM, PRs, load volume,
+ * plate loading and progression suggestions all need
+ * @param metrics - Metrics the exercise tracks
+ */
+export function tracksLoadAndReps(metrics: readonly SetMetric[]): boolean {
+  return metrics.includes('weight') && metrics.includes('reps')
+}
+
+/**
+ * The values of a logged set; metrics its exercise does not track are null
+ */
+export type MeasuredSet = {
+  weightKg: string | null
+  reps: number | null
+  durationSeconds: number | null
+  distanceMeters: number | null
+}
+
+/**
+ * Narrows a set to one with both a weight and reps
+ * @param set - Logged set
+ * @returns Whether the set has a weight and reps
+ */
+export function hasLoadAndReps<T extends { weightKg: string | null; reps: number | null }>(
+  set: T
+): set is T & { weightKg: string; reps: number } {
+  return set.weightKg !== null && set.reps !== null
+}
+
+/**
+ * Totals of each metric across sets
+ */
+export type SetTotals = {
+  volumeKg: number // Weight × reps, from sets with both
+  reps: number
+  durationSeconds: number
+  distanceMeters: number
+}
+
+/**
+ * Adds up each metric across sets, so every kind of exercise has a volume
+ * @param sets - Logged sets (use effective loads to include bodyweight)
+ * @returns Load volume plus total reps, time and distance
+ */
+export function getSetTotals(sets: MeasuredSet[]): SetTotals {
+  return sets.reduce<SetTotals>(
+    (totals, set) => ({
+      volumeKg:
+        totals.volumeKg + (hasLoadAndReps(set) ? calculateVolume(parseFloat(set.weightKg), set.reps) : 0),
+      reps: totals.reps + (set.reps ?? 0),
+      durationSeconds: totals.durationSeconds + (set.durationSeconds ?? 0),
+      distanceMeters: totals.distanceMeters + (set.distanceMeters ?? 0),
+    }),
+    { volumeKg: 0, reps: 0, durationSeconds: 0, distanceMeters: 0 }
+  )
+}
+
+/**
+ * Summarizes set totals by the metrics an exercise tracks
+ * @param totals - Totals from getSetTotals
+ * @param metrics - Metrics the exercise tracks
+ * @param unit - Unit to show the volume in
+ * @returns e.g. "500 kg volume", "36 reps", "4:30 total" or "120 m"
+ */
+export function formatSetTotals(
+  totals: SetTotals,
+  metrics: readonly SetMetric[],
+  unit: WeightUnit
+): string {
+  const parts: string[] = []
+  if (tracksLoadAndReps(metrics)) {
+    parts.push(`${formatWeightInUnit(totals.volumeKg, unit)} volume`)
+  } else if (metrics.includes('reps')) {
+    parts.push(`${totals.reps} reps`)
+  }
+  if (metrics.includes('duration')) {
+    parts.push(`${formatSetDuration(totals.durationSeconds)} total`)
+  }
+  if (metrics.includes('distance')) {
+    parts.push(formatDistance(totals.distanceMeters))
+  }
+  return parts.join(' · ')
+}
+
+/**
+ * Longest duration a single set can record (24 hours)
+ */
+export const MAX_SET_DURATION_SECONDS = 24 * 60 * 60
+
+/**
+ * Reads a duration typed as seconds ("90"), minutes and seconds ("1:30") or hours too ("1:02:30")
+ * @param value - Duration as typed
+ * @returns Whole seconds, or null when the value is not a duration
+ */
+export function parseSetDuration(value: string): number | null {
+  const parts = value.trim().split(':')
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return null
+  }
+  const seconds = parts.reduce((total, part) => total * 60 + parseFloat(part), 0)
+  return Math.round(seconds)
+}
+
+/**
+ * Formats a set duration for display and for the duration input
+ * @param seconds - Duration in seconds
+ * @returns e.g. "0:45", "1:30" or "1:02:30"
+ */
+export function formatSetDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const remainder = (seconds % 60).toString().padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${remainder}`
+    : `${minutes}:${remainder}`
+}
+
+/**
+ * Formats a distance for display
+ * @param meters - Distance in meters
+ * @returns Meters below 1 km (e.g. "40 m"), otherwise kilometers (e.g. "2.5 km")
+ */
+export function formatDistance(meters: number): string {
+  if (meters >= 1000) {
+    return `${Math.round(meters / 10) / 100} km`
+  }
+  return `${Math.round(meters * 10) / 10} m`
+}
+
+/**
+ * Summarizes a set by the metrics its exercise tracks
+ * @param set - Logged or prescribed set
+ * @param metrics - Metrics the exercise tracks
+ * @param loadMode - Load mode of the exercise
+ * @param unit - Unit to show the load in
+ * @returns e.g. "100 kg × 5", "BW+10kg × 8", "12 reps", "1:30" or "40 kg × 40 m"
+ */
+export function formatSetMetrics(
+  set: MeasuredSet,
+  metrics: readonly SetMetric[],
+  loadMode: LoadMode,
+  unit: WeightUnit
+): string {
+  const load = !metrics.includes('weight') || set.weightKg === null
+    ? null
+    : loadMode === 'external'
+    ? `${formatLoad(set.weightKg, loadMode, unit)} ${unit}`
+    : formatLoad(set.weightKg, loadMode, unit)
+  const measures: string[] = []
+  if (metrics.includes('reps') && set.reps !== null) {
+    measures.push(load === null ? `${set.reps} reps` : String(set.reps))
+  }
+  if (metrics.includes('duration') && set.durationSeconds !== null) {
+    measures.push(formatSetDuration(set.durationSeconds))
+  }
+  if (metrics.includes('distance') && set.distanceMeters !== null) {
+    measures.push(formatDistance(set.distanceMeters))
+  }
+
+  if (load === null) {
+    return measures.join(' · ')
+  }
+  return measures.length > 0 ? `${load} × ${measures.join(' · ')}` : load
+}
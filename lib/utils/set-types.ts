@@ -0,0 +1,35 @@
+/**
+ * Kinds of sets that can be logged
+ */
+export const setTypes = [
+  'warmup',
+  'working',
+  'drop',
+  'failure',
+  'amrap',
+] as const
+
+export type SetType = (typeof setTypes)[number]
+
+export const DEFAULT_SET_TYPE: SetType = 'working'
+
+export const setTypeLabels: Record<SetType, string> = {
+  warmup: 'Warm-up',
+  working: 'Working',
+  drop: 'Drop',
+  failure: 'Failure',
+  amrap: 'AMRAP',
+}
+
+/**
+ * Filters out warm-up sets when they should not count toward volume, e1RM or PRs
+ * @param sets - Sets with a set type
+ * @param excludeWarmupSets - Whether warm-up sets are excluded
+ * @returns The sets that count toward training statistics
+ */
+export function getCountedSets<T extends { setType: SetType }>(
+  sets: T[],
+  excludeWarmupSets: boolean
+): T[] {
+  return excludeWarmupSets ? sets.filter((set) => set.setType !== 'warmup') : sets
+}
@@ -0,0 +1,227 @@
+/**
+ * Supported one-rep max estimation formulas
+ */
+export const oneRepMaxFormulas = [
+  'epley',
+  'brzycki',
+  'lombardi',
+  'mayhew',
+  'oconner',
+  'wathan',
+  'lander',
+] as const
+
+export type OneRepMaxFormula = (typeof oneRepMaxFormulas)[number]
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley'
+
+export const oneRepMaxFormulaLabels: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  mayhew: 'Mayhew et al.',
+  oconner: "O'Conner et al.",
+  wathan: 'Wathan',
+  lander: 'Lander',
+}
+
+/**
+ * Multipliers that turn a set of `reps` into a 1RM (1RM = weight × multiplier)
+ */
+const oneRepMaxMultipliers: Record<OneRepMaxFormula, (reps: number) => number> = {
+  epley: (reps) => 1 + reps / 30,
+  brzycki: (reps) => 36 / (37 - reps),
+  lombardi: (reps) => Math.pow(reps, 0.1),
+  mayhew: (reps) => 100 / (52.2 + 41.9 * Math.exp(-0.055 * reps)),
+  oconner: (reps) => 1 + 0.025 * reps,
+  wathan: (reps) => 100 / (48.8 + 53.8 * Math.exp(-0.075 * reps)),
+  lander: (reps) => 100 / (101.3 - 2.67123 * reps),
+}
+
+function getMultiplier(reps: number, formula: OneRepMaxFormula): number | null {
+  const multiplier = oneRepMaxMultipliers[formula](reps)
+  // Some formulas break down for very high rep counts (e.g. Brzycki at 37+ reps)
+  if (!Number.isFinite(multiplier) || multiplier <= 0) {
+    return null
+  }
+  return multiplier
+}
+
+/**
+ * Estimates a one-rep max from a set
+ * @param weight - Weight lifted
+ * @param reps - Repetitions performed
+ * @param formula - Estimation formula (defaults to Epley)
+ * @returns Estimated 1RM (same unit as weight), or 0 when it cannot be estimated
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number {
+  if (weight <= 0 || reps <= 0) {
+    return 0
+  }
+  if (reps === 1) {
+    return weight
+  }
+  const multiplier = getMultiplier(reps, formula)
+  return multiplier === null ? 0 : weight * multiplier
+}
+
+/**
+ * Estimates the weight that can be lifted for a given number of reps
+ * @param oneRepMax - Known or estimated 1RM
+ * @param reps - Target repetitions
+ * @param formula - Estimation formula (defaults to Epley)
+ * @returns Estimated rep max (same unit as oneRepMax), or 0 when it cannot be estimated
+ */
+export function estimateRepMax(
+  oneRepMax: number,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number {
+  if (oneRepMax <= 0 || reps <= 0) {
+    return 0
+  }
+  if (reps === 1) {
+    return oneRepMax
+  }
+  const multiplier = getMultiplier(reps, formula)
+  return multiplier === null ? 0 : oneRepMax / multiplier
+}
+
+/**
+ * Builds a rep-max table (1RM, 2RM, ... maxReps RM) from a 1RM
+ * @param oneRepMax - Known or estimated 1RM
+ * @param formula - Estimation formula (defaults to Epley)
+ * @param maxReps - Highest rep max to include (defaults to 12)
+ * @returns Rows of reps and the estimated weight for that many reps
+ */
+export function buildRepMaxTable(
+  oneRepMax: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  maxReps = 12
+): { reps: number; weight: number }[] {
+  return Array.from({ length: maxReps }, (_, index) => ({
+    reps: index + 1,
+    weight: estimateRepMax(oneRepMax, index + 1, formula),
+  }))
+}
+
+/**
+ * Valid RPE ratings (6–10 in half steps)
+ */
+export const MIN_RPE = 6
+export const MAX_RPE = 10
+
+/**
+ * A logged set with an optional effort rating
+ */
+export type RatedSet = {
+  weightKg: string
+  reps: number
+  rpe?: number | null
+  rir?: number | null
+}
+
+/**
+ * Works out how many reps were left in reserve on a set
+ * @param set - Set with an optional RPE and/or RIR
+ * @returns Logged RIR, RIR derived from RPE (10 − RPE), or null when unrated
+ */
+export function getRepsInReserve(set: Pick<RatedSet, 'rpe' | 'rir'>): number | null {
+  if (set.rir !== null && set.rir !== undefined) {
+    return set.rir
+  }
+  if (set.rpe !== null && set.rpe !== undefined) {
+    return MAX_RPE - set.rpe
+  }
+  return null
+}
+
+/**
+ * Estimates a one-rep max from a logged set
+ * @param set - Set with a decimal weight string, reps and an optional effort rating
+ * @param formula - Estimation formula (defaults to Epley)
+ * @param useEffort - Count reps left in reserve as reps the lifter could have done
+ * @returns Estimated 1RM, or 0 when it cannot be estimated
+ */
+export function estimateSetOneRepMax(
+  set: RatedSet,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  useEffort = false
+): number {
+  const repsInReserve = useEffort ? getRepsInReserve(set) ?? 0 : 0
+  return estimateOneRepMax(parseFloat(set.weightKg), set.reps + repsInReserve, formula)
+}
+
+/**
+ * Finds the best estimated 1RM across a list of sets
+ * @param sets - Sets with a decimal weight string, reps and an optional effort rating
+ * @param formula - Estimation formula (defaults to Epley)
+ * @param useEffort - Adjust each estimate for reps left in reserve
+ * @returns Best estimated 1RM, or 0 when there are no sets
+ */
+export function getBestOneRepMax(
+  sets: RatedSet[],
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  useEffort = false
+): number {
+  return sets.reduce(
+    (best, set) => Math.max(best, estimateSetOneRepMax(set, formula, useEffort)),
+    0
+  )
+}
+
+/**
+ * Estimates the load for a number of reps at a target RPE (auto-regulation)
+ * @param oneRepMax - Known or estimated 1RM
+ * @param reps - Target repetitions
+ * @param rpe - Target RPE (10 leaves no reps in reserve)
+ * @param formula - Estimation formula (defaults to Epley)
+ * @returns Estimated load (same unit as oneRepMax), or 0 when it cannot be estimated
+ */
+export function estimateWeightForRpe(
+  oneRepMax: number,
+  reps: number,
+  rpe: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number {
+  return estimateRepMax(oneRepMax, reps + (MAX_RPE - rpe), formula)
+}
+
+/**
+ * Formats the effort rating of a set for display
+ * @param set - Set with an optional RPE and/or RIR
+ * @returns Formatted rating (e.g., "RPE 8.5", "RIR 2", "RPE 8 · RIR 2"), or null when unrated
+ */
+export function formatEffort(set: Pick<RatedSet, 'rpe' | 'rir'>): string | null {
+  const parts: string[] = []
+  if (set.rpe !== null && set.rpe !== undefined) {
+    parts.push(`RPE ${set.rpe}`)
+  }
+  if (set.rir !== null && set.rir !== undefined) {
+    parts.push(`RIR ${set.rir}`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+/**
+ * Calculates the training volume of a set (weight × reps)
+ * @param weight - Weight lifted
+ * @param reps - Repetitions performed
+ * @returns Volume of the set
+ */
+export function calculateVolume(weight: number, reps: number): number {
+  return weight * reps
+}
+
+/**
+ * Formats a calculated weight for display, dropping trailing zeros
+ * @param weight - Weight value
+ * @returns Formatted weight (e.g., "102.5", "100")
+ */
+export function formatWeight(weight: number): string {
+  return String(Math.round(weight * 10) / 10)
+}
@@ -0,0 +1,87 @@
+import { formatWeight } from '@/lib/utils/strength'
+
+/**
+ * Units a user can enter and view weights in
+ * Weights are always stored in kilograms; conversion happens at the server-action boundary
+ */
+export const weightUnits = ['kg', 'lb'] as const
+
+export type WeightUnit = (typeof weightUnits)[number]
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = 'kg'
+
+export const weightUnitLabels: Record<WeightUnit, string> = {
+  kg: 'Kilograms (kg)',
+  lb: 'Pounds (lb)',
+}
+
+/**
+ * Exact definition of the international avoirdupois pound
+ */
+export const KG_PER_LB = 0.45359237
+
+/**
+ * Decimal places of stored kilograms. Four places keep any weight entered with
+ * up to two decimals in either unit unchanged after a round-trip through storage.
+ */
+export const STORED_WEIGHT_SCALE = 4
+
+/**
+ * Smallest practical load step in each unit (used when rounding prescribed weights)
+ */
+export const loadIncrements: Record<WeightUnit, number> = {
+  kg: 2.5,
+  lb: 5,
+}
+
+/**
+ * Converts a weight in the given unit to kilograms
+ * @param weight - Weight in `unit`
+ * @param unit - Unit of the weight
+ * @returns Weight in kg
+ */
+export function toKilograms(weight: number, unit: WeightUnit): number {
+  return unit === 'lb' ? weight * KG_PER_LB : weight
+}
+
+/**
+ * Converts a weight in kilograms to the given unit
+ * @param weightKg - Weight in kg
+ * @param unit - Unit to convert to
+ * @returns Weight in `unit`
+ */
+export function fromKilograms(weightKg: number, unit: WeightUnit): number {
+  return unit === 'lb' ? weightKg / KG_PER_LB : weightKg
+}
+
+/**
+ * Converts an entered weight into the kilogram decimal string that is stored
+ * @param weight - Entered weight as a decimal string in `unit`
+ * @param unit - Unit the weight was entered in
+ * @returns Weight in kg with STORED_WEIGHT_SCALE decimals
+ */
+export function toStoredWeight(weight: string, unit: WeightUnit): string {
+  return toKilograms(parseFloat(weight), unit).toFixed(STORED_WEIGHT_SCALE)
+}
+
+/**
+ * Converts a stored weight into the unit it is entered in, rounded to two decimals
+ * This is the inverse of toStoredWeight, so entered weights show up unchanged
+ * @param weightKg - Stored weight in kg (decimal string or number)
+ * @param unit - Unit to show the weight in
+ * @returns Weight without trailing zeros (e.g., "135", "61.23")
+ */
+export function toWeightInputValue(weightKg: string | number, unit: WeightUnit): string {
+  const weight = fromKilograms(typeof weightKg === 'string' ? parseFloat(weightKg) : weightKg, unit)
+  return String(Math.round(weight * 100) / 100)
+}
+
+/**
+ * Formats a calculated weight (e1RM, volume, rep max) in the user's unit
+ * @param weightKg - Weight in kg
+ * @param unit - Unit to show the weight in
+ * @returns Formatted weight with its unit (e.g., "102.5 kg", "225 lb")
+ */
+export function formatWeightInUnit(weightKg: number, unit: WeightUnit): string {
+  return `${formatWeight(fromKilograms(weightKg, unit))} ${unit}`
+}
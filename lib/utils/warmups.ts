@@ -0,0 +1,76 @@
+import { calculatePlateLoad, type PlateSetup } from '@/lib/utils/plates'
+
+/**
+ * One step of a warm-up ramp, as a percentage of the working weight
+ * 0% is the empty bar; every step is at least the bar weight
+ */
+export type WarmupStep = {
+  percent: number
+  reps: number
+}
+
+/**
+ * A generated warm-up set, in the unit of the plate setup
+ */
+export type WarmupSet = {
+  weight: number
+  reps: number
+}
+
+export const MAX_WARMUP_STEPS = 10
+
+/**
+ * Bar×10, 40%×5, 60%×3, 80%×1
+ */
+export const DEFAULT_WARMUP_SCHEME: WarmupStep[] = [
+  { percent: 0, reps: 10 },
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 1 },
+]
+
+/**
+ * Gets the user's saved warm-up scheme, falling back to the default
+ * @param saved - Saved scheme, or null when the user has not set one
+ * @returns Warm-up scheme to generate with
+ */
+export function getWarmupScheme(saved: WarmupStep[] | null): WarmupStep[] {
+  return saved ?? DEFAULT_WARMUP_SCHEME
+}
+
+/**
+ * Formats a warm-up step (e.g. "Bar × 10", "60% × 3")
+ */
+export function formatWarmupStep(step: WarmupStep): string {
+  return `${step.percent === 0 ? 'Bar' : `${step.percent}%`} × ${step.reps}`
+}
+
+/**
+ * Builds the warm-up ramp for a working weight
+ * Each step is rounded to the nearest weight the plates can load. Steps that land
+ * on the working weight or repeat the previous weight are dropped.
+ * @param workingWeight - Working set weight, in the unit of the plate setup
+ * @param scheme - Warm-up steps
+ * @param plateSetup - Bar and plates used to round each step
+ * @returns Warm-up sets, lightest first
+ */
+export function generateWarmupSets(
+  workingWeight: number,
+  scheme: WarmupStep[],
+  plateSetup: PlateSetup
+): WarmupSet[] {
+  const warmups: WarmupSet[] = []
+
+  for (const step of [...scheme].sort((a, b) => a.percent - b.percent)) {
+    const { totalWeight } = calculatePlateLoad((workingWeight * step.percent) / 100, plateSetup)
+    const previous = warmups[warmups.length - 1]
+
+    if (totalWeight >= workingWeight || (previous && totalWeight <= previous.weight)) {
+      continue
+    }
+
+    warmups.push({ weight: totalWeight, reps: step.reps })
+  }
+
+  return warmups
+}
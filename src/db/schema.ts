@@ -4,16 +4,68 @@ import {
   varchar,
   timestamp,
   decimal,
+  index,
+  boolean,
+  jsonb,
+  primaryKey,
+  text,
+  unique,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { OneRepMaxFormula } from "@/lib/utils/strength";
+import type { SetType } from "@/lib/utils/set-types";
+import type { LoadMode } from "@/lib/utils/load-modes";
+import type { WeightUnit } from "@/lib/utils/units";
+import type { PlateSetup } from "@/lib/utils/plates";
+import type { WarmupStep } from "@/lib/utils/warmups";
+import type { ExerciseGroupType } from "@/lib/utils/exercise-groups";
+import type { ProgressionSettings } from "@/lib/utils/progression";
+import type { MuscleGroup, Equipment, MovementPattern } from "@/lib/utils/exercise-catalog";
+import type { SetMetric } from "@/lib/utils/set-metrics";
 
-// 運動項目參考表
+// 運動項目表 (全域運動目錄與使用者自訂運動)
 export const exercises = pgTable("exercises", {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
-  name: varchar({ length: 255 }).notNull().unique(),
+  userId: varchar("user_id", { length: 255 }), // 建立者的 Clerk user ID (null 為全域運動目錄)
+  name: varchar({ length: 255 }).notNull(),
+  normalizedName: varchar("normalized_name", { length: 255 }).notNull(), // 去除多餘空白並轉小寫的名稱，用於比對重複
+  primaryMuscle: varchar("primary_muscle", { length: 32 }).$type<MuscleGroup>(), // 主要訓練肌群 (null 表示未分類)
+  secondaryMuscles: varchar("secondary_muscles", { length: 32 })
+    .array()
+    .$type<MuscleGroup[]>()
+    .notNull()
+    .default([]), // 次要訓練肌群
+  equipment: varchar({ length: 32 }).$type<Equipment>(), // 器材 (槓鈴、啞鈴、機械、滑輪…)
+  movementPattern: varchar("movement_pattern", { length: 32 }).$type<MovementPattern>(), // 動作模式 (蹲、髖絞鏈、推、拉…)
+  isCompound: boolean("is_compound"), // 多關節動作為 true，單關節動作為 false
+  metrics: varchar({ length: 16 })
+    .array()
+    .$type<SetMetric[]>()
+    .notNull()
+    .default(["weight", "reps"]), // 每組記錄的指標 (重量、次數、時間、距離)
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
-});
+}, (table) => [
+  // 全域運動名稱不可重複；自訂運動名稱在同一使用者內不可重複 (不分大小寫與空白)
+  uniqueIndex("exercises_global_name_unique").on(table.normalizedName).where(sql`${table.userId} is null`),
+  uniqueIndex("exercises_user_name_unique").on(table.userId, table.normalizedName),
+]);
+
+// 運動別名表 (如 "BP"、"Flat Bench" 指向臥推)
+export const exerciseAliases = pgTable("exercise_aliases", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  exerciseId: integer("exercise_id")
+    .notNull()
+    .references(() => exercises.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 255 }), // 建立者的 Clerk user ID (null 為全域別名)
+  alias: varchar({ length: 255 }).notNull(),
+  normalizedAlias: varchar("normalized_alias", { length: 255 }).notNull(), // 去除多餘空白並轉小寫的別名
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("exercise_aliases_global_unique").on(table.normalizedAlias).where(sql`${table.userId} is null`),
+  uniqueIndex("exercise_aliases_user_unique").on(table.userId, table.normalizedAlias),
+]);
 
 // 訓練記錄表
 export const workouts = pgTable("workouts", {
@@ -22,6 +74,14 @@ export const workouts = pgTable("workouts", {
   name: varchar({ length: 255 }).notNull(),
   startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
   completedAt: timestamp("completed_at", { withTimezone: true }),
+  programEnrollmentId: integer("program_enrollment_id").references(
+    () => programEnrollments.id,
+    { onDelete: "set null" }
+  ), // 由訓練計畫產生時所屬的報名 (手動建立為 null)
+  programWeek: integer("program_week"), // 訓練計畫中的第幾週
+  programDay: integer("program_day"), // 該週的第幾天
+  bodyweightKg: decimal("bodyweight_kg", { precision: 7, scale: 4, mode: "number" }), // 當天體重(公斤)，用於自體重運動的訓練量與 1RM
+  notes: text(), // 訓練備註
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
@@ -36,28 +96,175 @@ export const workoutExercises = pgTable("workout_exercises", {
     .notNull()
     .references(() => exercises.id),
   order: integer().notNull(), // 在訓練中的執行順序
+  groupNumber: integer("group_number"), // 超級組/循環編號，同一訓練中編號相同的運動為一組 (null 為單獨運動)
+  groupType: varchar("group_type", { length: 16 }).$type<ExerciseGroupType>(), // 分組類型 (超級組、巨型組、循環)
+  notes: text(), // 此運動項目在本次訓練的備註
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
 // 組數記錄表
 export const sets = pgTable("sets", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  workoutExerciseId: integer("workout_exercise_id")
+    .notNull()
+    .references(() => workoutExercises.id, { onDelete: "cascade" }),
+  setNumber: integer("set_number").notNull(), // 組數編號 (1, 2, 3...)，由伺服器指派且不會跳號
+  weightKg: decimal("weight_kg", { precision: 8, scale: 4 }), // 重量(公斤)，自體重運動為額外負重，輔助式運動為負值 (不記錄重量的運動為 null)
+  reps: integer(), // 次數 (不記錄次數的運動為 null)
+  durationSeconds: integer("duration_seconds"), // 持續秒數，如棒式 (不記錄時間的運動為 null)
+  distanceMeters: decimal("distance_meters", { precision: 10, scale: 2, mode: "number" }), // 距離(公尺)，如農夫走路、推雪橇、划船 (不記錄距離的運動為 null)
+  setType: varchar("set_type", { length: 16 })
+    .$type<SetType>()
+    .notNull()
+    .default("working"), // 組別類型 (熱身、正式、遞減、力竭、AMRAP)
+  rpe: decimal({ precision: 3, scale: 1, mode: "number" }), // 自覺強度 (6–10，以 0.5 為單位)
+  rir: integer(), // 保留次數 (Reps in Reserve)
+  restSeconds: integer("rest_seconds"), // 記錄此組前實際休息的秒數
+  notes: text(), // 組別備註
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  unique("sets_workout_exercise_set_number_unique").on(table.workoutExerciseId, table.setNumber),
+]);
+
+// 處方組數表 (訓練計畫指定的目標組數)
+export const prescribedSets = pgTable("prescribed_sets", {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   workoutExerciseId: integer("workout_exercise_id")
     .notNull()
     .references(() => workoutExercises.id, { onDelete: "cascade" }),
   setNumber: integer("set_number").notNull(), // 組數編號 (1, 2, 3...)
-  weightKg: decimal("weight_kg", { precision: 6, scale: 2 }).notNull(), // 重量(公斤)
-  reps: integer().notNull(), // 次數
+  weightKg: decimal("weight_kg", { precision: 8, scale: 4 }).notNull(), // 目標重量(公斤)
+  reps: integer().notNull(), // 目標次數
+  isAmrap: boolean("is_amrap").notNull().default(false), // 是否為盡力做到力竭的組 (AMRAP)
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// 訓練範本表 (可重複使用的訓練課表)
+export const workoutTemplates = pgTable("workout_templates", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  name: varchar({ length: 255 }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// 範本-運動關聯表
+export const templateExercises = pgTable("template_exercises", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  templateId: integer("template_id")
+    .notNull()
+    .references(() => workoutTemplates.id, { onDelete: "cascade" }),
+  exerciseId: integer("exercise_id")
+    .notNull()
+    .references(() => exercises.id),
+  order: integer().notNull(), // 在範本中的執行順序
+  groupNumber: integer("group_number"), // 超級組/循環編號，同一範本中編號相同的運動為一組 (null 為單獨運動)
+  groupType: varchar("group_type", { length: 16 }).$type<ExerciseGroupType>(), // 分組類型 (超級組、巨型組、循環)
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// 個人紀錄類型
+export const personalRecordTypes = [
+  "max_weight", // 最大重量
+  "max_reps", // 指定重量下的最多次數
+  "best_e1rm", // 最佳預估 1RM
+  "best_session_volume", // 單次訓練最大訓練量
+] as const;
+
+export type PersonalRecordType = (typeof personalRecordTypes)[number];
+
+// 個人紀錄表 (由已記錄的組數計算而來)
+export const personalRecords = pgTable("personal_records", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  exerciseId: integer("exercise_id")
+    .notNull()
+    .references(() => exercises.id, { onDelete: "cascade" }),
+  recordType: varchar("record_type", { length: 32 })
+    .$type<PersonalRecordType>()
+    .notNull(),
+  value: decimal({ precision: 12, scale: 4 }).notNull(), // 紀錄數值 (重量、次數、1RM 或訓練量)
+  weightKg: decimal("weight_kg", { precision: 8, scale: 4 }), // 締造紀錄時的重量(公斤)
+  reps: integer(), // 締造紀錄時的次數
+  setId: integer("set_id").references(() => sets.id, { onDelete: "cascade" }), // 締造紀錄的組 (訓練量紀錄為 null)
+  workoutId: integer("workout_id")
+    .notNull()
+    .references(() => workouts.id, { onDelete: "cascade" }),
+  achievedAt: timestamp("achieved_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("personal_records_user_exercise_idx").on(table.userId, table.exerciseId),
+]);
+
+// 使用者設定表 (每位使用者一筆)
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id", { length: 255 }).primaryKey(), // Clerk user ID
+  oneRepMaxFormula: varchar("one_rep_max_formula", { length: 32 })
+    .$type<OneRepMaxFormula>()
+    .notNull()
+    .default("epley"), // 預估 1RM 公式
+  excludeWarmupSets: boolean("exclude_warmup_sets").notNull().default(true), // 訓練量、1RM 與 PR 計算是否排除熱身組
+  useEffortForOneRepMax: boolean("use_effort_for_one_rep_max").notNull().default(false), // 預估 1RM 是否計入 RPE/RIR 保留次數
+  weightUnit: varchar("weight_unit", { length: 2 })
+    .$type<WeightUnit>()
+    .notNull()
+    .default("kg"), // 重量輸入與顯示單位 (資料一律以公斤儲存)
+  plateSetup: jsonb("plate_setup").$type<PlateSetup>(), // 槓鈴重量與槓片庫存 (null 使用重量單位的預設值)
+  warmupScheme: jsonb("warmup_scheme").$type<WarmupStep[]>(), // 熱身組百分比與次數 (null 使用預設的熱身方式)
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// 使用者的運動項目設定表 (每位使用者每個運動項目一筆)
+export const userExerciseSettings = pgTable("user_exercise_settings", {
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  exerciseId: integer("exercise_id")
+    .notNull()
+    .references(() => exercises.id, { onDelete: "cascade" }),
+  restSeconds: integer("rest_seconds"), // 預設組間休息秒數 (null 使用系統預設)
+  loadMode: varchar("load_mode", { length: 16 })
+    .$type<LoadMode>()
+    .notNull()
+    .default("external"), // 負重方式 (外部負重、自體重加負重、輔助式)
+  progression: jsonb().$type<ProgressionSettings>(), // 漸進超負荷建議規則 (線性、雙重、RPE；null 不提供建議)
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.exerciseId] }),
+]);
+
+// 訓練計畫報名表 (計畫內容定義於 lib/utils/programs.ts)
+export const programEnrollments = pgTable("program_enrollments", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  programId: varchar("program_id", { length: 64 }).notNull(), // 內建訓練計畫 ID
+  startDate: timestamp("start_date", { withTimezone: true }).notNull(),
+  inputs: jsonb().$type<Record<string, number>>().notNull(), // 各主項的訓練最大重量或起始重量(公斤)
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
 // 定義關聯關係 (用於 Drizzle 查詢)
 export const exercisesRelations = relations(exercises, ({ many }) => ({
+  aliases: many(exerciseAliases),
   workoutExercises: many(workoutExercises),
+  templateExercises: many(templateExercises),
+  personalRecords: many(personalRecords),
+  userExerciseSettings: many(userExerciseSettings),
 }));
 
-export const workoutsRelations = relations(workouts, ({ many }) => ({
+export const exerciseAliasesRelations = relations(exerciseAliases, ({ one }) => ({
+  exercise: one(exercises, {
+    fields: [exerciseAliases.exerciseId],
+    references: [exercises.id],
+  }),
+}));
+
+export const workoutsRelations = relations(workouts, ({ one, many }) => ({
   workoutExercises: many(workoutExercises),
+  programEnrollment: one(programEnrollments, {
+    fields: [workouts.programEnrollmentId],
+    references: [programEnrollments.id],
+  }),
 }));
 
 export const workoutExercisesRelations = relations(
@@ -72,6 +279,7 @@ export const workoutExercisesRelations = relations(
       references: [exercises.id],
     }),
     sets: many(sets),
+    prescribedSets: many(prescribedSets),
   })
 );
 
@@ -81,3 +289,51 @@ export const setsRelations = relations(sets, ({ one }) => ({
     references: [workoutExercises.id],
   }),
 }));
+
+export const prescribedSetsRelations = relations(prescribedSets, ({ one }) => ({
+  workoutExercise: one(workoutExercises, {
+    fields: [prescribedSets.workoutExerciseId],
+    references: [workoutExercises.id],
+  }),
+}));
+
+export const workoutTemplatesRelations = relations(workoutTemplates, ({ many }) => ({
+  templateExercises: many(templateExercises),
+}));
+
+export const templateExercisesRelations = relations(templateExercises, ({ one }) => ({
+  template: one(workoutTemplates, {
+    fields: [templateExercises.templateId],
+    references: [workoutTemplates.id],
+  }),
+  exercise: one(exercises, {
+    fields: [templateExercises.exerciseId],
+    references: [exercises.id],
+  }),
+}));
+
+export const personalRecordsRelations = relations(personalRecords, ({ one }) => ({
+  exercise: one(exercises, {
+    fields: [personalRecords.exerciseId],
+    references: [exercises.id],
+  }),
+  set: one(sets, {
+    fields: [personalRecords.setId],
+    references: [sets.id],
+  }),
+  workout: one(workouts, {
+    fields: [personalRecords.workoutId],
+    references: [workouts.id],
+  }),
+}));
+
+export const programEnrollmentsRelations = relations(programEnrollments, ({ many }) => ({
+  workouts: many(workouts),
+}));
+
+export const userExerciseSettingsRelations = relations(userExerciseSettings, ({ one }) => ({
+  exercise: one(exercises, {
+    fields: [userExerciseSettings.exerciseId],
+    references: [exercises.id],
+  }),
+}));
@@ -0,0 +1,80 @@
+import 'dotenv/config';
+import { drizzle } from 'drizzle-orm/neon-http';
+import { neon } from '@neondatabase/serverless';
+import { isNull, sql as rawSql } from 'drizzle-orm';
+import { exercises, exerciseAliases } from './schema';
+import { exerciseCatalog } from '../../lib/utils/exercise-catalog';
+import { normalizeExerciseName } from '../../lib/utils/exercise-names';
+
+/**
+ * Seeds the standard exercise catalog and its aliases
+ * Existing exercises with a catalog name get their metadata and metrics filled in, so the
+ * script can be run again after the catalog changes
+ */
+async function main() {
+  console.log('Seeding exercise catalog...');
+
+  const sql = neon(process.env.DATABASE_URL!);
+  const db = drizzle({ client: sql });
+
+  const seeded = await db
+    .insert(exercises)
+    .values(
+      exerciseCatalog.map((exercise) => ({
+        name: exercise.name,
+        normalizedName: normalizeExerciseName(exercise.name),
+        primaryMuscle: exercise.primaryMuscle,
+        secondaryMuscles: exercise.secondaryMuscles,
+        equipment: exercise.equipment,
+        movementPattern: exercise.movementPattern,
+        isCompound: exercise.isCompound,
+        metrics: exercise.metrics,
+      }))
+    )
+    .onConflictDoUpdate({
+      // Catalog exercises are global; users' custom exercises are left alone
+      target: exercises.normalizedName,
+      targetWhere: isNull(exercises.userId),
+      set: {
+        primaryMuscle: rawSql`excluded.primary_muscle`,
+        secondaryMuscles: rawSql`excluded.secondary_muscles`,
+        equipment: rawSql`excluded.equipment`,
+        movementPattern: rawSql`excluded.movement_pattern`,
+        isCompound: rawSql`excluded.is_compound`,
+        metrics: rawSql`excluded.metrics`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ id: exercises.id, normalizedName: exercises.normalizedName });
+
+  const exerciseIds = new Map(seeded.map((exercise) => [exercise.normalizedName, exercise.id]));
+  const aliases = exerciseCatalog.flatMap((exercise) =>
+    exercise.aliases.map((alias) => ({
+      exerciseId: exerciseIds.get(normalizeExerciseName(exercise.name))!,
+      alias,
+      normalizedAlias: normalizeExerciseName(alias),
+    }))
+  );
+
+  await db
+    .insert(exerciseAliases)
+    .values(aliases)
+    .onConflictDoUpdate({
+      // Global aliases follow the catalog; users' own aliases are left alone
+      target: exerciseAliases.normalizedAlias,
+      targetWhere: isNull(exerciseAliases.userId),
+      set: {
+        exerciseId: rawSql`excluded.exercise_id`,
+        alias: rawSql`excluded.alias`,
+      },
+    });
+
+  console.log(`Seeded ${exerciseCatalog.length} exercises and ${aliases.length} aliases!`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Seeding failed!');
+  console.error(err);
+  process.exit(1);
+});
@@ -1,4 +1,17 @@
-import { exercises, workouts, workoutExercises, sets } from "@/src/db/schema";
+import {
+  exercises,
+  workouts,
+  workoutExercises,
+  sets,
+  personalRecords,
+  userSettings,
+  userExerciseSettings,
+  workoutTemplates,
+  templateExercises,
+  prescribedSets,
+  programEnrollments,
+} from "@/src/db/schema";
+import type { MuscleGroup } from "@/lib/utils/exercise-catalog";
 
 // Infer TypeScript types from Drizzle schema
 export type Exercise = typeof exercises.$inferSelect;
@@ -13,12 +26,61 @@ export type NewWorkoutExercise = typeof workoutExercises.$inferInsert;
 export type Set = typeof sets.$inferSelect;
 export type NewSet = typeof sets.$inferInsert;
 
+export type PrescribedSet = typeof prescribedSets.$inferSelect;
+export type NewPrescribedSet = typeof prescribedSets.$inferInsert;
+
+export type WorkoutTemplate = typeof workoutTemplates.$inferSelect;
+export type NewWorkoutTemplate = typeof workoutTemplates.$inferInsert;
+
+export type TemplateExercise = typeof templateExercises.$inferSelect;
+export type NewTemplateExercise = typeof templateExercises.$inferInsert;
+
+export type PersonalRecord = typeof personalRecords.$inferSelect;
+export type NewPersonalRecord = typeof personalRecords.$inferInsert;
+
+export type UserSettings = typeof userSettings.$inferSelect;
+export type NewUserSettings = typeof userSettings.$inferInsert;
+
+export type UserExerciseSettings = typeof userExerciseSettings.$inferSelect;
+export type NewUserExerciseSettings = typeof userExerciseSettings.$inferInsert;
+
+export type ProgramEnrollment = typeof programEnrollments.$inferSelect;
+export type NewProgramEnrollment = typeof programEnrollments.$inferInsert;
+
 // Composite types for queries with relations
 export type WorkoutExerciseWithDetails = WorkoutExercise & {
   exercise: Exercise;
   sets: Set[];
+  prescribedSets: PrescribedSet[];
 };
 
 export type WorkoutWithExercises = Workout & {
   workoutExercises: WorkoutExerciseWithDetails[];
 };
+
+export type TemplateWithExercises = WorkoutTemplate & {
+  exercises: (TemplateExercise & { exercise: Exercise })[];
+};
+
+export type ExerciseHistoryEntry = {
+  workout: Workout;
+  workoutExercise: WorkoutExercise;
+  sets: Set[];
+};
+
+export type MuscleGroupVolume = {
+  muscleGroup: MuscleGroup;
+  setCount: number;
+  totalVolume: number;
+};
+
+export type ExerciseProgressPoint = {
+  workoutId: number;
+  date: Date;
+  topSetWeight: number;
+  bestE1rm: number;
+  totalVolume: number;
+  totalReps: number;
+  totalDuration: number; // Seconds
+  totalDistance: number; // Meters
+};